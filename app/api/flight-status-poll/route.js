@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  getFlightDelayMinutes,
+  getPitFlightTimes,
+  isFinalFlightStatus
+} from "../../../lib/flightStatus";
+import { getFlightStatusProvider } from "../../../lib/flightStatusProviders";
+import { addDaysToDate, toPittsburghDateTime } from "../../../lib/time";
+import { applyTripDelay } from "../../../lib/tripDelays";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const cronSecret = process.env.CRON_SECRET;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function GET(request) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  if (!cronSecret) {
+    return NextResponse.json({ error: "Missing CRON_SECRET configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (token !== cronSecret) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+  }
+
+  let provider;
+  try {
+    provider = getFlightStatusProvider();
+  } catch (providerError) {
+    return NextResponse.json({ error: providerError.message }, { status: 500 });
+  }
+
+  const today = toPittsburghDateTime(new Date()).date;
+  const { data: trips, error: tripsError } = await supabaseAdmin
+    .from("trips")
+    .select("id,direction,flight_date,airline_code,flight_number,flight_status,follow_flight")
+    .in("flight_date", [today, addDaysToDate(today, 1)])
+    .not("airline_code", "is", null)
+    .not("flight_number", "is", null);
+
+  if (tripsError) {
+    return NextResponse.json({ error: tripsError.message }, { status: 500 });
+  }
+
+  const pending = (trips ?? []).filter((trip) => !isFinalFlightStatus(trip.flight_status));
+  const updates = [];
+  const failures = [];
+
+  for (const trip of pending) {
+    const checkedAt = new Date().toISOString();
+    let status;
+    try {
+      status = await provider.getFlightStatus({
+        airlineCode: trip.airline_code,
+        flightNumber: trip.flight_number,
+        flightDate: trip.flight_date
+      });
+    } catch (lookupError) {
+      failures.push({ tripId: trip.id, error: lookupError.message });
+      continue;
+    }
+
+    const changes = { flight_status_checked_at: checkedAt };
+    if (status) {
+      const pitTimes = getPitFlightTimes(status, trip.direction);
+      changes.flight_status = status.status;
+      changes.flight_delay_minutes = getFlightDelayMinutes(status, trip.direction);
+      changes.flight_expected_at = pitTimes.expected;
+      changes.flight_gate = pitTimes.gate;
+      if (trip.direction === "Arriving to Pittsburgh" && status.status === "landed") {
+        changes.landed_status = "Landed";
+      }
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("trips")
+      .update(changes)
+      .eq("id", trip.id);
+
+    if (updateError) {
+      failures.push({ tripId: trip.id, error: updateError.message });
+      continue;
+    }
+
+    // Riders following their flight get their window shifted with the delay.
+    let brokenTripIds = [];
+    if (status && trip.follow_flight) {
+      const shiftResult = await applyTripDelay(supabaseAdmin, trip.id, changes.flight_delay_minutes);
+      if (shiftResult.error) {
+        failures.push({ tripId: trip.id, error: shiftResult.error });
+      }
+      brokenTripIds = shiftResult.brokenTripIds;
+    }
+
+    if (status) {
+      updates.push({
+        tripId: trip.id,
+        status: status.status,
+        delayMinutes: changes.flight_delay_minutes,
+        brokenTripIds
+      });
+    }
+  }
+
+  return NextResponse.json({
+    checkedAt: new Date().toISOString(),
+    provider: provider.name,
+    checked: pending.length,
+    updated: updates.length,
+    delayed: updates.filter((update) => update.delayMinutes > 0),
+    failures
+  });
+}
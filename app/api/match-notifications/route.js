@@ -1,11 +1,15 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { Resend } from "resend";
+import { sendEmail } from "../../../lib/email";
+import { formatFlight, formatOtherAirport } from "../../../lib/flights";
+import {
+  findCompatibleMatches,
+  getCandidateWindowBounds,
+  getFlightAffinity
+} from "../../../lib/matching";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const resendApiKey = process.env.RESEND_API_KEY;
-const resendFrom = process.env.RESEND_FROM || "TartanTrips <onboarding@resend.dev>";
 
 const supabaseAdmin = supabaseUrl && serviceRoleKey
   ? createClient(supabaseUrl, serviceRoleKey, {
@@ -13,62 +17,33 @@ const supabaseAdmin = supabaseUrl && serviceRoleKey
     })
   : null;
 
-const resend = resendApiKey ? new Resend(resendApiKey) : null;
+const describeAffinity = (trip, matchedTrip) => {
+  const affinity = getFlightAffinity(trip, matchedTrip);
 
-const allowsSex = (allowed, partnerSex) => {
-  if (!allowed || allowed === "Any") {
-    return true;
+  if (affinity === "same_flight") {
+    return {
+      subject: "✈️ Someone on your flight is on TartanTrips",
+      line: `They're on the same flight as you (${formatFlight(trip)}), so your timing lines up exactly.`
+    };
   }
 
-  if (allowed === "Male only") {
-    return partnerSex === "Male";
+  if (affinity === "same_route") {
+    return {
+      subject: "✈️ New TartanTrips match on your route",
+      line: `${formatOtherAirport(trip.direction, trip.other_airport_code)}: they're flying the same route as you.`
+    };
   }
 
-  if (allowed === "Female only") {
-    return partnerSex === "Female";
-  }
-
-  if (allowed === "Non-binary only") {
-    return partnerSex === "Non-binary";
-  }
-
-  return false;
+  return { subject: "✈️ New TartanTrips match available", line: null };
 };
 
-const windowsOverlap = (aStart, aEnd, bStart, bEnd) => {
-  if (!aStart || !aEnd || !bStart || !bEnd) {
-    return false;
-  }
-
-  const aStartDate = new Date(aStart);
-  const aEndDate = new Date(aEnd);
-  const bStartDate = new Date(bStart);
-  const bEndDate = new Date(bEnd);
-
-  return aStartDate <= bEndDate && aEndDate >= bStartDate;
-};
-
-const sendNotification = async (trip, tripProfile) => {
-  if (!resend) {
-    return { error: "Missing Resend configuration" };
-  }
-
-  const subject = "✈️ New TartanTrips match available";
+const sendNotification = async (trip, tripProfile, matchedTrip) => {
+  const { subject, line } = describeAffinity(trip, matchedTrip);
   const recipientName = tripProfile?.name || "there";
-  const body = `Hi ${recipientName},\n\nA new CMU student with a compatible trip just matched with you on TartanTrips.\n\nLog in to view your updated matches and coordinate if this one works for you.\n\n— TartanTrips\n`;
-
-  const { error } = await resend.emails.send({
-    from: resendFrom,
-    to: trip.user_email,
-    subject,
-    text: body
-  });
+  const affinityLine = line ? `${line}\n\n` : "";
+  const body = `Hi ${recipientName},\n\nA new CMU student with a compatible trip just matched with you on TartanTrips.\n\n${affinityLine}Log in to view your updated matches and coordinate if this one works for you.\n\n— TartanTrips\n`;
 
-  if (error) {
-    return { error: error.message || "Failed to send email" };
-  }
-
-  return { error: null };
+  return sendEmail({ to: trip.user_email, subject, text: body });
 };
 
 const notificationExists = async (tripId, matchedTripId) => {
@@ -91,7 +66,9 @@ export async function POST(request) {
     return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
   }
 
-  const { tripId } = await request.json();
+  // matchedTripId names a near match whose window the trip just stretched to
+  // meet, so that rider hears about it even though neither trip is new.
+  const { tripId, matchedTripId } = await request.json();
 
   if (!tripId) {
     return NextResponse.json({ error: "tripId is required" }, { status: 400 });
@@ -100,7 +77,7 @@ export async function POST(request) {
   const { data: trip, error: tripError } = await supabaseAdmin
     .from("trips")
     .select(
-      "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,window_start,window_end,created_at,baseline_match_check_at"
+      "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,window_start,window_end,airline_code,flight_number,other_airport_code,created_at,baseline_match_check_at"
     )
     .eq("id", tripId)
     .single();
@@ -123,15 +100,19 @@ export async function POST(request) {
     }
   }
 
-  const { data: candidates, error: candidatesError } = await supabaseAdmin
-    .from("trips")
-    .select(
-      "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,window_start,window_end,created_at,baseline_match_check_at"
-    )
-    .eq("direction", trip.direction)
-    .eq("flight_date", trip.flight_date)
-    .neq("id", trip.id)
-    .neq("user_email", trip.user_email);
+  const windowBounds = getCandidateWindowBounds(trip);
+  const { data: candidates, error: candidatesError } = windowBounds
+    ? await supabaseAdmin
+        .from("trips")
+        .select(
+          "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,window_start,window_end,airline_code,flight_number,other_airport_code,created_at,baseline_match_check_at"
+        )
+        .eq("direction", trip.direction)
+        .lte("window_start", windowBounds.latestStart)
+        .gte("window_end", windowBounds.earliestEnd)
+        .neq("id", trip.id)
+        .neq("user_email", trip.user_email)
+    : { data: [], error: null };
 
   if (candidatesError) {
     return NextResponse.json({ error: candidatesError.message }, { status: 500 });
@@ -156,21 +137,7 @@ export async function POST(request) {
     return NextResponse.json({ error: "Trip owner profile is missing sex." }, { status: 400 });
   }
 
-  const compatible = (candidates ?? []).filter((candidate) => {
-    if (!windowsOverlap(trip.window_start, trip.window_end, candidate.window_start, candidate.window_end)) {
-      return false;
-    }
-
-    const candidateProfile = profileMap.get(candidate.user_email);
-    if (!candidateProfile?.sex) {
-      return false;
-    }
-
-    const currentAllowsCandidate = allowsSex(trip.allowed_partner_sex, candidateProfile.sex);
-    const candidateAllowsCurrent = allowsSex(candidate.allowed_partner_sex, tripProfile.sex);
-
-    return currentAllowsCandidate && candidateAllowsCurrent;
-  });
+  const compatible = findCompatibleMatches(trip, candidates ?? [], profileMap);
 
   const notifications = [];
 
@@ -180,7 +147,7 @@ export async function POST(request) {
     if (candidateCreatedAfterBaseline) {
       const { error: existsError, exists } = await notificationExists(trip.id, candidate.id);
       if (!existsError && !exists) {
-        const { error: sendError } = await sendNotification(trip, tripProfile);
+        const { error: sendError } = await sendNotification(trip, tripProfile, candidate);
         if (!sendError) {
           await supabaseAdmin.from("match_notifications").insert({
             trip_id: trip.id,
@@ -193,11 +160,12 @@ export async function POST(request) {
     }
 
     const otherBaseline = candidate.baseline_match_check_at || candidate.created_at;
-    if (!isNewTrip && otherBaseline && trip.created_at > otherBaseline) {
+    const isExtendedMatch = Boolean(matchedTripId) && candidate.id === matchedTripId;
+    if ((!isNewTrip && otherBaseline && trip.created_at > otherBaseline) || isExtendedMatch) {
       const { error: existsError, exists } = await notificationExists(candidate.id, trip.id);
       if (!existsError && !exists) {
         const candidateProfile = profileMap.get(candidate.user_email);
-        const { error: sendError } = await sendNotification(candidate, candidateProfile);
+        const { error: sendError } = await sendNotification(candidate, candidateProfile, trip);
         if (!sendError) {
           await supabaseAdmin.from("match_notifications").insert({
             trip_id: candidate.id,
@@ -212,7 +180,7 @@ export async function POST(request) {
       const { error: existsError, exists } = await notificationExists(candidate.id, trip.id);
       if (!existsError && !exists) {
         const candidateProfile = profileMap.get(candidate.user_email);
-        const { error: sendError } = await sendNotification(candidate, candidateProfile);
+        const { error: sendError } = await sendNotification(candidate, candidateProfile, trip);
         if (!sendError) {
           await supabaseAdmin.from("match_notifications").insert({
             trip_id: candidate.id,
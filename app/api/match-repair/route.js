@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const cronSecret = process.env.CRON_SECRET;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function GET(request) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  if (!cronSecret) {
+    return NextResponse.json({ error: "Missing CRON_SECRET configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (token !== cronSecret) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("find_asymmetric_match_requests");
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const asymmetries = (data ?? []).map((row) => ({
+    tripId: row.trip_id,
+    matchedTripId: row.matched_trip_id,
+    status: row.status,
+    reverseStatus: row.reverse_status,
+    expectedReverseStatus: row.expected_reverse_status
+  }));
+
+  return NextResponse.json({
+    checkedAt: new Date().toISOString(),
+    asymmetric: asymmetries.length,
+    asymmetries
+  });
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { getMatchEvent, getPoolLeaveEvents, notifyMatchEvents } from "../../../lib/matchEvents";
+import { isMatchAction, validateMatchTransition } from "../../../lib/matchStateMachine";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -10,69 +12,127 @@ const supabaseAdmin = supabaseUrl && serviceRoleKey
     })
   : null;
 
-const matchEmailFields = [
-  "match_email_0",
-  "match_email_1",
-  "match_email_2",
-  "match_email_3",
-  "match_email_4",
-  "match_email_5"
-];
-
-const matchStatusFields = [
-  "match_status_0",
-  "match_status_1",
-  "match_status_2",
-  "match_status_3",
-  "match_status_4",
-  "match_status_5"
-];
-
-const getSlotForEmail = (trip, email) => {
-  return matchEmailFields.findIndex((field) => trip[field] === email);
+const actionFunctions = {
+  request: "match_request_send",
+  withdraw: "match_request_withdraw",
+  accept: "match_request_accept",
+  deny: "match_request_deny",
+  remove: "match_request_remove"
 };
 
-const getEmptySlot = (trip) => {
-  return matchEmailFields.findIndex((field) => !trip[field]);
+const errorResponse = (error, code, status) => {
+  return NextResponse.json({ error, code }, { status });
+};
+
+// Removing a pool partner takes the trip out of the whole pool, so every
+// member is affected, not just the two trips named in the request.
+const loadAffectedTripIds = async (trip, matchTrip) => {
+  const { data: poolRows, error: poolError } = await supabaseAdmin
+    .from("pool_members")
+    .select("pool_id,trip_id")
+    .in("trip_id", [trip.id, matchTrip.id]);
+
+  if (poolError) {
+    return { error: poolError.message, tripIds: [] };
+  }
+
+  const tripPoolId = (poolRows ?? []).find((row) => row.trip_id === trip.id)?.pool_id;
+  const matchPoolId = (poolRows ?? []).find((row) => row.trip_id === matchTrip.id)?.pool_id;
+  if (!tripPoolId || tripPoolId !== matchPoolId) {
+    return { error: null, tripIds: [trip.id, matchTrip.id] };
+  }
+
+  const { data: memberRows, error: membersError } = await supabaseAdmin
+    .from("pool_members")
+    .select("trip_id")
+    .eq("pool_id", tripPoolId);
+
+  if (membersError) {
+    return { error: membersError.message, tripIds: [] };
+  }
+
+  return { error: null, tripIds: (memberRows ?? []).map((row) => row.trip_id) };
+};
+
+// An accept may only have asked the pool to approve, and an approval may not
+// be the last one, so the events follow what the database actually did. The
+// action has already happened, so a failed read just sends nothing.
+const loadAcceptEvents = async (trip, matchTrip, role) => {
+  if (role === "pool_partner") {
+    const { data: memberRows } = await supabaseAdmin
+      .from("pool_members")
+      .select("pool_id,trip_id")
+      .in("trip_id", [trip.id, matchTrip.id]);
+    const poolIds = new Set((memberRows ?? []).map((row) => row.pool_id));
+
+    return (memberRows ?? []).length === 2 && poolIds.size === 1
+      ? [getMatchEvent("accept", trip.id, matchTrip.id)]
+      : [];
+  }
+
+  const { data: relationRows } = await supabaseAdmin
+    .from("match_requests")
+    .select("trip_id,matched_trip_id,status")
+    .in("matched_trip_id", [trip.id, matchTrip.id]);
+  const rows = relationRows ?? [];
+  const status = rows.find(
+    (row) => row.trip_id === trip.id && row.matched_trip_id === matchTrip.id
+  )?.status;
+
+  if (status === "matched") {
+    return [getMatchEvent("accept", trip.id, matchTrip.id)];
+  }
+
+  if (status === "partner_approval_needed") {
+    return rows
+      .filter(
+        (row) =>
+          row.status === "partner_approval_needed" &&
+          row.trip_id !== trip.id &&
+          row.trip_id !== matchTrip.id
+      )
+      .map((row) => ({
+        type: "approval_needed",
+        actorTripId: row.matched_trip_id,
+        recipientTripId: row.trip_id
+      }));
+  }
+
+  return [];
 };
 
 export async function POST(request) {
   if (!supabaseAdmin) {
-    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+    return errorResponse("Missing Supabase service role configuration", "SERVER_ERROR", 500);
   }
 
   const authHeader = request.headers.get("authorization") || "";
   const token = authHeader.replace(/^Bearer\s+/i, "").trim();
   if (!token) {
-    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+    return errorResponse("Missing auth token", "UNAUTHENTICATED", 401);
   }
 
   const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
   if (authError || !authData?.user) {
-    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+    return errorResponse("Invalid auth token", "UNAUTHENTICATED", 401);
   }
 
   const { action, tripId, matchedTripId } = await request.json();
   if (!action || !tripId || !matchedTripId) {
-    return NextResponse.json({ error: "action, tripId, matchedTripId are required" }, { status: 400 });
+    return errorResponse("action, tripId, matchedTripId are required", "INVALID_REQUEST", 400);
+  }
+
+  if (!isMatchAction(action)) {
+    return errorResponse("Unsupported action", "UNSUPPORTED_ACTION", 400);
   }
 
   const { data: trips, error: tripError } = await supabaseAdmin
     .from("trips")
-    .select(
-      [
-        "id",
-        "user_email",
-        "direction",
-        "flight_date",
-        ...matchEmailFields,
-        ...matchStatusFields
-      ].join(",")
-    )
+    .select("id,user_email,direction,flight_date")
     .in("id", [tripId, matchedTripId]);
 
   if (tripError || !trips || trips.length !== 2) {
-    return NextResponse.json({ error: tripError?.message || "Trips not found" }, { status: 404 });
+    return errorResponse(tripError?.message || "Trips not found", "TRIPS_NOT_FOUND", 404);
   }
 
   const requesterEmail = authData.user.email;
@@ -80,7 +140,7 @@ export async function POST(request) {
   const matchTrip = trips.find((row) => row.id === matchedTripId);
 
   if (!trip || !matchTrip || !requesterEmail) {
-    return NextResponse.json({ error: "Trips not found" }, { status: 404 });
+    return errorResponse("Trips not found", "TRIPS_NOT_FOUND", 404);
   }
 
   const ownsTrip = trip.user_email === requesterEmail;
@@ -88,335 +148,95 @@ export async function POST(request) {
 
   if (action === "request" || action === "withdraw") {
     if (!ownsTrip) {
-      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+      return errorResponse("Not authorized", "NOT_AUTHORIZED", 403);
     }
   }
 
   if (action === "accept" || action === "deny") {
     if (!ownsTrip) {
-      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+      return errorResponse("Not authorized", "NOT_AUTHORIZED", 403);
     }
   }
 
   if (action === "remove") {
     if (!ownsTrip && !ownsMatchTrip) {
-      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+      return errorResponse("Not authorized", "NOT_AUTHORIZED", 403);
     }
   }
 
-  const requesterSlot = getSlotForEmail(trip, matchTrip.user_email);
-  const matchSlot = getSlotForEmail(matchTrip, trip.user_email);
-
-  const getMatchedPartners = (sourceTrip) => {
-    return matchEmailFields
-      .map((field, index) => {
-        const status = sourceTrip[matchStatusFields[index]];
-        return status === "matched" ? sourceTrip[field] : null;
-      })
-      .filter(Boolean);
-  };
-
-  const hasStatusWithEmail = (sourceTrip, email, status) => {
-    const slot = getSlotForEmail(sourceTrip, email);
-    if (slot === -1) {
-      return false;
-    }
-    return sourceTrip[matchStatusFields[slot]] === status;
-  };
-
-  const updateTrip = async (rowId, updates) => {
-    const { error } = await supabaseAdmin.from("trips").update(updates).eq("id", rowId);
-    if (error) {
-      throw new Error(error.message || "Failed to update trip");
-    }
-  };
-
-  if (action === "request") {
-    const slotA = requesterSlot === -1 ? getEmptySlot(trip) : requesterSlot;
-    const slotB = matchSlot === -1 ? getEmptySlot(matchTrip) : matchSlot;
+  const { data: relations, error: relationsError } = await supabaseAdmin
+    .from("match_requests")
+    .select("trip_id,matched_trip_id,status")
+    .or(
+      `and(trip_id.eq.${trip.id},matched_trip_id.eq.${matchTrip.id}),and(trip_id.eq.${matchTrip.id},matched_trip_id.eq.${trip.id})`
+    );
 
-    if (slotA === -1 || slotB === -1) {
-      return NextResponse.json({ error: "No available match slots" }, { status: 400 });
-    }
-
-    const updatesA = {
-      [matchEmailFields[slotA]]: matchTrip.user_email,
-      [matchStatusFields[slotA]]: "request_sent"
-    };
-    const updatesB = {
-      [matchEmailFields[slotB]]: trip.user_email,
-      [matchStatusFields[slotB]]: "request_received"
-    };
-
-    try {
-      await updateTrip(trip.id, updatesA);
-      await updateTrip(matchTrip.id, updatesB);
-    } catch (err) {
-      return NextResponse.json({ error: err.message }, { status: 500 });
-    }
-
-    return NextResponse.json({ ok: true });
+  if (relationsError) {
+    return errorResponse(relationsError.message, "SERVER_ERROR", 500);
   }
 
-  if (action === "withdraw") {
-    if (requesterSlot === -1 || matchSlot === -1) {
-      return NextResponse.json({ error: "Match not found" }, { status: 404 });
-    }
-
-    try {
-      await updateTrip(trip.id, {
-        [matchEmailFields[requesterSlot]]: null,
-        [matchStatusFields[requesterSlot]]: null
-      });
-      await updateTrip(matchTrip.id, {
-        [matchEmailFields[matchSlot]]: null,
-        [matchStatusFields[matchSlot]]: null
-      });
-
-      const matchedPartners = getMatchedPartners(trip);
-      if (matchedPartners.length > 0) {
-        const { data: partnerTrips } = await supabaseAdmin
-          .from("trips")
-          .select(["id", "user_email", ...matchEmailFields, ...matchStatusFields].join(","))
-          .in("user_email", matchedPartners)
-          .eq("direction", trip.direction)
-          .eq("flight_date", trip.flight_date);
-
-        for (const partnerTrip of partnerTrips ?? []) {
-          const partnerSlot = getSlotForEmail(partnerTrip, matchTrip.user_email);
-          if (
-            partnerSlot !== -1 &&
-            partnerTrip[matchStatusFields[partnerSlot]] === "partner_approval_needed"
-          ) {
-            await updateTrip(partnerTrip.id, {
-              [matchEmailFields[partnerSlot]]: null,
-              [matchStatusFields[partnerSlot]]: null
-            });
-          }
-        }
-      }
-    } catch (err) {
-      return NextResponse.json({ error: err.message }, { status: 500 });
-    }
-
-    return NextResponse.json({ ok: true });
+  const tripStatus = (relations ?? []).find((row) => row.trip_id === trip.id)?.status ?? null;
+  const matchStatus = (relations ?? []).find((row) => row.trip_id === matchTrip.id)?.status ?? null;
+  const transition = validateMatchTransition(action, tripStatus, matchStatus);
+  if (!transition.ok) {
+    const status = transition.code === "MATCH_NOT_FOUND" ? 404 : 409;
+    return errorResponse(transition.message, transition.code, status);
   }
 
-  if (action === "accept") {
-    if (requesterSlot === -1) {
-      return NextResponse.json({ error: "Match not found" }, { status: 404 });
-    }
-
-    try {
-      const currentStatus = trip[matchStatusFields[requesterSlot]];
-      if (
-        currentStatus === "partner_approval_needed" &&
-        !hasStatusWithEmail(matchTrip, trip.user_email, "partner_approval_needed")
-      ) {
-        await updateTrip(trip.id, {
-          [matchEmailFields[requesterSlot]]: null,
-          [matchStatusFields[requesterSlot]]: null
-        });
-
-        const { data: possibleRequesters } = await supabaseAdmin
-          .from("trips")
-          .select(["id", "user_email", "direction", "flight_date", ...matchEmailFields, ...matchStatusFields].join(","))
-          .eq("direction", trip.direction)
-          .eq("flight_date", trip.flight_date);
-
-        const requesterTrip = (possibleRequesters ?? []).find((candidate) => {
-          return (
-            hasStatusWithEmail(candidate, trip.user_email, "matched") &&
-            hasStatusWithEmail(candidate, matchTrip.user_email, "partner_approval_needed")
-          );
-        });
-
-        if (!requesterTrip) {
-          return NextResponse.json({ ok: true });
-        }
-
-        const requesterPartners = getMatchedPartners(requesterTrip);
-        const { data: partnerTrips } = await supabaseAdmin
-          .from("trips")
-          .select(["id", "user_email", ...matchEmailFields, ...matchStatusFields].join(","))
-          .in("user_email", requesterPartners)
-          .eq("direction", requesterTrip.direction)
-          .eq("flight_date", requesterTrip.flight_date);
-
-        const pendingApprovals = (partnerTrips ?? []).filter((partnerTrip) => {
-          const partnerSlot = getSlotForEmail(partnerTrip, matchTrip.user_email);
-          return (
-            partnerSlot !== -1 &&
-            partnerTrip[matchStatusFields[partnerSlot]] === "partner_approval_needed"
-          );
-        });
-
-        if (pendingApprovals.length === 0) {
-          const requesterSlotWithCandidate = getSlotForEmail(requesterTrip, matchTrip.user_email);
-          const candidateSlotWithRequester = getSlotForEmail(matchTrip, requesterTrip.user_email);
-          if (requesterSlotWithCandidate !== -1 && candidateSlotWithRequester !== -1) {
-            await updateTrip(requesterTrip.id, {
-              [matchStatusFields[requesterSlotWithCandidate]]: "matched"
-            });
-            await updateTrip(matchTrip.id, {
-              [matchStatusFields[candidateSlotWithRequester]]: "matched"
-            });
-          }
-        }
-
-        return NextResponse.json({ ok: true });
-      }
-
-      if (matchSlot === -1) {
-        return NextResponse.json({ error: "Match not found" }, { status: 404 });
-      }
-
-      const requesterPartners = getMatchedPartners(matchTrip);
-      if (requesterPartners.length > 0) {
-        await updateTrip(trip.id, { [matchStatusFields[requesterSlot]]: "partner_approval_needed" });
-        await updateTrip(matchTrip.id, { [matchStatusFields[matchSlot]]: "partner_approval_needed" });
-
-        const { data: partnerTrips } = await supabaseAdmin
-          .from("trips")
-          .select(["id", "user_email", ...matchEmailFields, ...matchStatusFields].join(","))
-          .in("user_email", requesterPartners)
-          .eq("direction", matchTrip.direction)
-          .eq("flight_date", matchTrip.flight_date);
-
-        for (const partnerTrip of partnerTrips ?? []) {
-          const partnerSlot = getSlotForEmail(partnerTrip, trip.user_email);
-          const emptySlot = partnerSlot === -1 ? getEmptySlot(partnerTrip) : partnerSlot;
-          if (emptySlot === -1) {
-            continue;
-          }
-          await updateTrip(partnerTrip.id, {
-            [matchEmailFields[emptySlot]]: trip.user_email,
-            [matchStatusFields[emptySlot]]: "partner_approval_needed"
-          });
-        }
-
-        return NextResponse.json({ ok: true });
-      }
-
-      await updateTrip(trip.id, { [matchStatusFields[requesterSlot]]: "matched" });
-      await updateTrip(matchTrip.id, { [matchStatusFields[matchSlot]]: "matched" });
-    } catch (err) {
-      return NextResponse.json({ error: err.message }, { status: 500 });
-    }
+  const { error: affectedError, tripIds: affectedTripIds } =
+    action === "remove"
+      ? await loadAffectedTripIds(trip, matchTrip)
+      : { error: null, tripIds: [trip.id, matchTrip.id] };
 
-    return NextResponse.json({ ok: true });
+  if (affectedError) {
+    return errorResponse(affectedError, "SERVER_ERROR", 500);
   }
 
-  if (action === "deny") {
-    if (requesterSlot === -1) {
-      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  const { data: actionResult, error: actionError } = await supabaseAdmin.rpc(
+    actionFunctions[action],
+    {
+      p_trip_id: trip.id,
+      p_matched_trip_id: matchTrip.id
     }
+  );
 
-    try {
-      const currentStatus = trip[matchStatusFields[requesterSlot]];
-      if (
-        currentStatus === "partner_approval_needed" &&
-        !hasStatusWithEmail(matchTrip, trip.user_email, "partner_approval_needed")
-      ) {
-        await updateTrip(trip.id, {
-          [matchEmailFields[requesterSlot]]: null,
-          [matchStatusFields[requesterSlot]]: null
-        });
-
-        const { data: possibleRequesters } = await supabaseAdmin
-          .from("trips")
-          .select(["id", "user_email", "direction", "flight_date", ...matchEmailFields, ...matchStatusFields].join(","))
-          .eq("direction", trip.direction)
-          .eq("flight_date", trip.flight_date);
-
-        const requesterTrip = (possibleRequesters ?? []).find((candidate) => {
-          return (
-            hasStatusWithEmail(candidate, trip.user_email, "matched") &&
-            hasStatusWithEmail(candidate, matchTrip.user_email, "partner_approval_needed")
-          );
-        });
-
-        if (requesterTrip) {
-          const requesterSlotWithCandidate = getSlotForEmail(requesterTrip, matchTrip.user_email);
-          const candidateSlotWithRequester = getSlotForEmail(matchTrip, requesterTrip.user_email);
-
-          if (requesterSlotWithCandidate !== -1) {
-            await updateTrip(requesterTrip.id, {
-              [matchEmailFields[requesterSlotWithCandidate]]: null,
-              [matchStatusFields[requesterSlotWithCandidate]]: null
-            });
-          }
-          if (candidateSlotWithRequester !== -1) {
-            await updateTrip(matchTrip.id, {
-              [matchEmailFields[candidateSlotWithRequester]]: null,
-              [matchStatusFields[candidateSlotWithRequester]]: null
-            });
-          }
-
-          const requesterPartners = getMatchedPartners(requesterTrip);
-          const { data: partnerTrips } = await supabaseAdmin
-            .from("trips")
-            .select(["id", "user_email", ...matchEmailFields, ...matchStatusFields].join(","))
-            .in("user_email", requesterPartners)
-            .eq("direction", requesterTrip.direction)
-            .eq("flight_date", requesterTrip.flight_date);
-
-          for (const partnerTrip of partnerTrips ?? []) {
-            const partnerSlot = getSlotForEmail(partnerTrip, matchTrip.user_email);
-            if (
-              partnerSlot !== -1 &&
-              partnerTrip[matchStatusFields[partnerSlot]] === "partner_approval_needed"
-            ) {
-              await updateTrip(partnerTrip.id, {
-                [matchEmailFields[partnerSlot]]: null,
-                [matchStatusFields[partnerSlot]]: null
-              });
-            }
-          }
-        }
-
-        return NextResponse.json({ ok: true });
-      }
-
-      if (matchSlot === -1) {
-        return NextResponse.json({ error: "Match not found" }, { status: 404 });
-      }
-
-      await updateTrip(trip.id, {
-        [matchEmailFields[requesterSlot]]: null,
-        [matchStatusFields[requesterSlot]]: null
-      });
-      await updateTrip(matchTrip.id, {
-        [matchEmailFields[matchSlot]]: null,
-        [matchStatusFields[matchSlot]]: null
-      });
-    } catch (err) {
-      return NextResponse.json({ error: err.message }, { status: 500 });
+  if (actionError) {
+    if (actionError.code === "P0002") {
+      return errorResponse(actionError.message || "Match not found", "MATCH_NOT_FOUND", 404);
     }
-
-    return NextResponse.json({ ok: true });
-  }
-
-  if (action === "remove") {
-    if (requesterSlot === -1 || matchSlot === -1) {
-      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+    if (actionError.code === "P0003") {
+      return errorResponse(actionError.message, "POOL_CONFLICT", 409);
     }
-
-    try {
-      await updateTrip(trip.id, {
-        [matchEmailFields[requesterSlot]]: null,
-        [matchStatusFields[requesterSlot]]: null
-      });
-      await updateTrip(matchTrip.id, {
-        [matchEmailFields[matchSlot]]: null,
-        [matchStatusFields[matchSlot]]: null
-      });
-    } catch (err) {
-      return NextResponse.json({ error: err.message }, { status: 500 });
+    if (actionError.code === "P0004") {
+      return errorResponse(actionError.message, "POOL_FULL", 409);
     }
+    if (actionError.code === "P0006") {
+      return errorResponse(actionError.message, "MATCH_CHANGED", 409);
+    }
+    return errorResponse(actionError.message || "Failed to update match", "SERVER_ERROR", 500);
+  }
 
-    return NextResponse.json({ ok: true });
+  // A final approval that no longer fits closes the newcomer's request rather
+  // than failing, and says why.
+  if (action === "accept" && actionResult) {
+    return errorResponse(actionResult, "POOL_FULL", 409);
   }
 
-  return NextResponse.json({ error: "Unsupported action" }, { status: 400 });
+  // Either rider can remove a match, so events come from whoever acted. Removal
+  // always takes trip out of its pool.
+  const actorTripId = ownsTrip ? trip.id : matchTrip.id;
+  const events =
+    action === "remove"
+      ? getPoolLeaveEvents(trip.id, actorTripId, affectedTripIds)
+      : action === "accept"
+        ? await loadAcceptEvents(trip, matchTrip, transition.role)
+        : [getMatchEvent(action, trip.id, matchTrip.id)];
+  const notified = await notifyMatchEvents(supabaseAdmin, events);
+
+  return NextResponse.json({
+    ok: true,
+    role: transition.role,
+    events: events.map((event) => event.type),
+    notified
+  });
 }
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const poolId = params?.id;
+  const { tripId, bookerTripId } = await request.json();
+  if (!poolId || !tripId || bookerTripId === undefined) {
+    return NextResponse.json(
+      { error: "Pool id, tripId and bookerTripId are required" },
+      { status: 400 }
+    );
+  }
+
+  const { data: memberRows, error: membersError } = await supabaseAdmin
+    .from("pool_members")
+    .select("trip_id,trips(user_email)")
+    .eq("pool_id", poolId);
+
+  if (membersError) {
+    return NextResponse.json({ error: membersError.message }, { status: 500 });
+  }
+
+  const members = memberRows ?? [];
+  const requester = members.find((member) => member.trip_id === tripId);
+  if (!requester) {
+    return NextResponse.json({ error: "Trip is not in this pool" }, { status: 404 });
+  }
+
+  if (requester.trips?.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  if (bookerTripId && !members.some((member) => member.trip_id === bookerTripId)) {
+    return NextResponse.json({ error: "The booker must be a rider in this pool" }, { status: 400 });
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("pools")
+    .update({ booker_trip_id: bookerTripId || null, updated_at: new Date().toISOString() })
+    .eq("id", poolId);
+
+  if (updateError) {
+    return NextResponse.json(
+      { error: updateError.message || "Failed to update who's booking" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ ok: true, bookerTripId: bookerTripId || null });
+}
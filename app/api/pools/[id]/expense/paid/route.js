@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const poolId = params?.id;
+  const { tripId, paid } = await request.json();
+  if (!poolId || !tripId || typeof paid !== "boolean") {
+    return NextResponse.json({ error: "Pool id, tripId and paid are required" }, { status: 400 });
+  }
+
+  const { data: trip, error: tripError } = await supabaseAdmin
+    .from("trips")
+    .select("id,user_email")
+    .eq("id", tripId)
+    .single();
+
+  if (tripError || !trip) {
+    return NextResponse.json({ error: tripError?.message || "Trip not found" }, { status: 404 });
+  }
+
+  if (trip.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const { data: expense, error: expenseError } = await supabaseAdmin
+    .from("pool_expenses")
+    .select("id")
+    .eq("pool_id", poolId)
+    .maybeSingle();
+
+  if (expenseError) {
+    return NextResponse.json({ error: expenseError.message }, { status: 500 });
+  }
+
+  if (!expense) {
+    return NextResponse.json({ error: "No fare has been recorded for this pool" }, { status: 404 });
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from("pool_expense_shares")
+    .update({ paid_at: paid ? new Date().toISOString() : null })
+    .eq("expense_id", expense.id)
+    .eq("trip_id", trip.id)
+    .select("trip_id");
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  }
+
+  if ((updated ?? []).length === 0) {
+    return NextResponse.json({ error: "You don't have a share of this fare" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, paid });
+}
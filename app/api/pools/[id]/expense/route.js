@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { FARE_SPLIT_MODES, splitFare } from "../../../../../lib/fares";
+import { planPoolRoute } from "../../../../../lib/poolRoutes";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+const MAX_FARE_AMOUNT = 1000;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const poolId = params?.id;
+  const { tripId, amount, splitMode, receiptPath } = await request.json();
+  if (!poolId || !tripId) {
+    return NextResponse.json({ error: "Pool id and tripId are required" }, { status: 400 });
+  }
+
+  const fare = Math.round(Number(amount) * 100) / 100;
+  if (!Number.isFinite(fare) || fare <= 0 || fare > MAX_FARE_AMOUNT) {
+    return NextResponse.json(
+      { error: `Enter the fare as an amount up to $${MAX_FARE_AMOUNT}` },
+      { status: 400 }
+    );
+  }
+
+  if (!FARE_SPLIT_MODES.includes(splitMode)) {
+    return NextResponse.json({ error: "Unsupported split mode" }, { status: 400 });
+  }
+
+  if (receiptPath && !String(receiptPath).startsWith(`${authData.user.id}/`)) {
+    return NextResponse.json({ error: "Receipts must be uploaded by the payer" }, { status: 400 });
+  }
+
+  const { data: memberRows, error: membersError } = await supabaseAdmin
+    .from("pool_members")
+    .select("trip_id,trips(id,user_email,direction,party_size,campus_location)")
+    .eq("pool_id", poolId);
+
+  if (membersError) {
+    return NextResponse.json({ error: membersError.message }, { status: 500 });
+  }
+
+  const members = (memberRows ?? []).map((row) => row.trips).filter(Boolean);
+  const payer = members.find((member) => member.id === tripId);
+  if (!payer) {
+    return NextResponse.json({ error: "Trip is not in this pool" }, { status: 404 });
+  }
+
+  if (payer.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const route = planPoolRoute(payer.direction, members);
+  const shares = splitFare(fare, route, members, splitMode);
+
+  const { error: recordError } = await supabaseAdmin.rpc("pool_expense_record", {
+    p_pool_id: poolId,
+    p_payer_trip_id: tripId,
+    p_amount: fare,
+    p_split_mode: splitMode,
+    p_receipt_path: receiptPath || null,
+    p_shares: Object.entries(shares).map(([memberTripId, share]) => ({
+      trip_id: memberTripId,
+      amount: share
+    }))
+  });
+
+  if (recordError) {
+    if (recordError.code === "P0002") {
+      return NextResponse.json({ error: recordError.message }, { status: 404 });
+    }
+    if (recordError.code === "P0005") {
+      return NextResponse.json(
+        { error: recordError.message, code: "EXPENSE_CONFLICT" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: recordError.message || "Failed to record the fare" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ ok: true, amount: fare, shares });
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getPoolLeaveEvents, notifyMatchEvents } from "../../../../../lib/matchEvents";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const poolId = params?.id;
+  const { tripId } = await request.json();
+  if (!poolId || !tripId) {
+    return NextResponse.json({ error: "Pool id and tripId are required" }, { status: 400 });
+  }
+
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from("pool_members")
+    .select("pool_id,trip_id,trips(user_email)")
+    .eq("pool_id", poolId)
+    .eq("trip_id", tripId)
+    .maybeSingle();
+
+  if (membershipError) {
+    return NextResponse.json({ error: membershipError.message }, { status: 500 });
+  }
+
+  if (!membership) {
+    return NextResponse.json({ error: "Pool membership not found" }, { status: 404 });
+  }
+
+  if (membership.trips?.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const { data: memberRows, error: membersError } = await supabaseAdmin
+    .from("pool_members")
+    .select("trip_id")
+    .eq("pool_id", poolId);
+
+  if (membersError) {
+    return NextResponse.json({ error: membersError.message }, { status: 500 });
+  }
+
+  const { error: leaveError } = await supabaseAdmin.rpc("pool_leave", { p_trip_id: tripId });
+  if (leaveError) {
+    const status = leaveError.code === "P0002" ? 404 : 500;
+    return NextResponse.json({ error: leaveError.message || "Failed to leave pool" }, { status });
+  }
+
+  // Everyone left behind loses their match with this trip.
+  const notified = await notifyMatchEvents(
+    supabaseAdmin,
+    getPoolLeaveEvents(tripId, tripId, (memberRows ?? []).map((row) => row.trip_id))
+  );
+
+  return NextResponse.json({ ok: true, notified });
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { isVehicleClass } from "../../../../../lib/pools";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const poolId = params?.id;
+  const { tripId, vehicleClass } = await request.json();
+  if (!poolId || !tripId || !vehicleClass) {
+    return NextResponse.json(
+      { error: "Pool id, tripId and vehicleClass are required" },
+      { status: 400 }
+    );
+  }
+
+  if (!isVehicleClass(vehicleClass)) {
+    return NextResponse.json({ error: "Unsupported vehicle class" }, { status: 400 });
+  }
+
+  const { data: pool, error: poolError } = await supabaseAdmin
+    .from("pools")
+    .select("id,organizer_trip_id,trips!organizer_trip_id(user_email)")
+    .eq("id", poolId)
+    .maybeSingle();
+
+  if (poolError) {
+    return NextResponse.json({ error: poolError.message }, { status: 500 });
+  }
+
+  if (!pool) {
+    return NextResponse.json({ error: "Pool not found" }, { status: 404 });
+  }
+
+  if (pool.organizer_trip_id !== tripId || pool.trips?.user_email !== authData.user.email) {
+    return NextResponse.json(
+      { error: "Only the pool organizer can change the vehicle" },
+      { status: 403 }
+    );
+  }
+
+  const { error: updateError } = await supabaseAdmin.rpc("pool_set_vehicle_class", {
+    p_pool_id: poolId,
+    p_vehicle_class: vehicleClass
+  });
+
+  if (updateError) {
+    if (updateError.code === "P0002") {
+      return NextResponse.json({ error: updateError.message }, { status: 404 });
+    }
+    if (updateError.code === "P0004") {
+      return NextResponse.json({ error: updateError.message, code: "POOL_FULL" }, { status: 409 });
+    }
+    return NextResponse.json(
+      { error: updateError.message || "Failed to update vehicle" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
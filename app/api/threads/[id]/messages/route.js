@@ -0,0 +1,208 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { normalizeMessageBody } from "../../../../../lib/messages";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+const MESSAGE_PAGE_SIZE = 200;
+
+const authenticate = async (request) => {
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return { error: NextResponse.json({ error: "Missing auth token" }, { status: 401 }) };
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return { error: NextResponse.json({ error: "Invalid auth token" }, { status: 401 }) };
+  }
+
+  return { user: authData.user };
+};
+
+// The thread's member trips, or an error response when the rider isn't one
+// of them. Pool threads follow the pool's current members; match threads need
+// the match relationship to still exist.
+const loadThreadMembers = async (threadId, email) => {
+  const { data: thread, error: threadError } = await supabaseAdmin
+    .from("message_threads")
+    .select("id,kind,pool_id,trip_a_id,trip_b_id")
+    .eq("id", threadId)
+    .maybeSingle();
+
+  if (threadError) {
+    return { error: NextResponse.json({ error: threadError.message }, { status: 500 }) };
+  }
+
+  if (!thread) {
+    return { error: NextResponse.json({ error: "Conversation not found" }, { status: 404 }) };
+  }
+
+  const { data: memberEmails, error: membersError } = await supabaseAdmin.rpc(
+    "message_thread_member_emails",
+    { p_thread_id: threadId }
+  );
+
+  if (membersError) {
+    return { error: NextResponse.json({ error: membersError.message }, { status: 500 }) };
+  }
+
+  if (!(memberEmails ?? []).includes(email)) {
+    return { error: NextResponse.json({ error: "Not authorized" }, { status: 403 }) };
+  }
+
+  const { data: tripRows, error: tripsError } =
+    thread.kind === "pool"
+      ? await supabaseAdmin
+          .from("pool_members")
+          .select("joined_at,trips(id,user_email)")
+          .eq("pool_id", thread.pool_id)
+          .order("joined_at", { ascending: true })
+      : await supabaseAdmin
+          .from("trips")
+          .select("id,user_email")
+          .in("id", [thread.trip_a_id, thread.trip_b_id]);
+
+  if (tripsError) {
+    return { error: NextResponse.json({ error: tripsError.message }, { status: 500 }) };
+  }
+
+  const memberTrips =
+    thread.kind === "pool"
+      ? (tripRows ?? []).map((row) => row.trips).filter(Boolean)
+      : tripRows ?? [];
+
+  return { thread, memberTrips };
+};
+
+export async function GET(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const { user, error } = await authenticate(request);
+  if (error) {
+    return error;
+  }
+
+  const threadId = params?.id;
+  if (!threadId) {
+    return NextResponse.json({ error: "Conversation id is required" }, { status: 400 });
+  }
+
+  const { thread, memberTrips, error: memberError } = await loadThreadMembers(
+    threadId,
+    user.email
+  );
+  if (memberError) {
+    return memberError;
+  }
+
+  const { data: profileRows, error: profilesError } = await supabaseAdmin
+    .from("profiles")
+    .select("email,name,avatar_path")
+    .in("email", memberTrips.map((memberTrip) => memberTrip.user_email));
+
+  if (profilesError) {
+    return NextResponse.json({ error: profilesError.message }, { status: 500 });
+  }
+
+  const profileMap = new Map((profileRows ?? []).map((record) => [record.email, record]));
+  const members = memberTrips.map((memberTrip) => ({
+    trip_id: memberTrip.id,
+    name: profileMap.get(memberTrip.user_email)?.name || "CMU student",
+    avatar_path: profileMap.get(memberTrip.user_email)?.avatar_path ?? null,
+    is_you: memberTrip.user_email === user.email
+  }));
+
+  // Polling passes the newest message it has, as (created_at, id) so messages
+  // sharing a timestamp aren't skipped, and gets the oldest ones after it, so
+  // a backlog arrives in order; the first load gets the latest page.
+  const after = request.nextUrl.searchParams.get("after");
+  const afterId = request.nextUrl.searchParams.get("afterId");
+  let messagesQuery = supabaseAdmin
+    .from("messages")
+    .select("id,thread_id,sender_trip_id,body,created_at")
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: Boolean(after) })
+    .order("id", { ascending: Boolean(after) })
+    .limit(MESSAGE_PAGE_SIZE);
+  if (after && afterId) {
+    messagesQuery = messagesQuery.or(
+      `created_at.gt."${after}",and(created_at.eq."${after}",id.gt.${afterId})`
+    );
+  } else if (after) {
+    messagesQuery = messagesQuery.gte("created_at", after);
+  }
+
+  const { data: messageRows, error: messagesError } = await messagesQuery;
+
+  if (messagesError) {
+    return NextResponse.json({ error: messagesError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    thread: { id: thread.id, kind: thread.kind, pool_id: thread.pool_id },
+    members,
+    messages: after ? messageRows ?? [] : (messageRows ?? []).reverse()
+  });
+}
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const { user, error } = await authenticate(request);
+  if (error) {
+    return error;
+  }
+
+  const threadId = params?.id;
+  if (!threadId) {
+    return NextResponse.json({ error: "Conversation id is required" }, { status: 400 });
+  }
+
+  const { body: rawBody } = await request.json();
+  const { body, error: bodyError } = normalizeMessageBody(rawBody);
+  if (bodyError) {
+    return NextResponse.json({ error: bodyError }, { status: 400 });
+  }
+
+  const { memberTrips, error: memberError } = await loadThreadMembers(threadId, user.email);
+  if (memberError) {
+    return memberError;
+  }
+
+  const senderTrip = memberTrips.find((memberTrip) => memberTrip.user_email === user.email);
+  if (!senderTrip) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const { data: message, error: insertError } = await supabaseAdmin
+    .from("messages")
+    .insert({ thread_id: threadId, sender_trip_id: senderTrip.id, body })
+    .select("id,thread_id,sender_trip_id,body,created_at")
+    .single();
+
+  if (insertError) {
+    return NextResponse.json(
+      { error: insertError.message || "Failed to send the message" },
+      { status: 500 }
+    );
+  }
+
+  await supabaseAdmin
+    .from("message_reads")
+    .upsert({ thread_id: threadId, user_email: user.email, last_read_at: message.created_at });
+
+  return NextResponse.json({ message });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const threadId = params?.id;
+  if (!threadId) {
+    return NextResponse.json({ error: "Conversation id is required" }, { status: 400 });
+  }
+
+  const { data: memberEmails, error: membersError } = await supabaseAdmin.rpc(
+    "message_thread_member_emails",
+    { p_thread_id: threadId }
+  );
+
+  if (membersError) {
+    return NextResponse.json({ error: membersError.message }, { status: 500 });
+  }
+
+  if (!(memberEmails ?? []).includes(authData.user.email)) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const { error: readError } = await supabaseAdmin
+    .from("message_reads")
+    .upsert({
+      thread_id: threadId,
+      user_email: authData.user.email,
+      last_read_at: new Date().toISOString()
+    });
+
+  if (readError) {
+    return NextResponse.json({ error: readError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
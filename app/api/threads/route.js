@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { countUnreadMessages } from "../../../lib/messages";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+const authenticate = async (request) => {
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return { error: NextResponse.json({ error: "Missing auth token" }, { status: 401 }) };
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return { error: NextResponse.json({ error: "Invalid auth token" }, { status: 401 }) };
+  }
+
+  return { user: authData.user };
+};
+
+export async function GET(request) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const { user, error } = await authenticate(request);
+  if (error) {
+    return error;
+  }
+
+  const { data: rows, error: summariesError } = await supabaseAdmin.rpc(
+    "message_thread_summaries",
+    { p_email: user.email }
+  );
+
+  if (summariesError) {
+    return NextResponse.json({ error: summariesError.message }, { status: 500 });
+  }
+
+  const threads = (rows ?? []).map((row) => ({
+    id: row.thread_id,
+    kind: row.kind,
+    pool_id: row.pool_id,
+    trip_ids: [row.trip_a_id, row.trip_b_id].filter(Boolean),
+    last_message_at: row.last_message_at,
+    unread: Number(row.unread) || 0
+  }));
+
+  return NextResponse.json({ threads, unread: countUnreadMessages(threads) });
+}
+
+// Opens (creating if needed) the chat for one of the rider's trips with a
+// matched trip or with the trip's pool.
+export async function POST(request) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const { user, error } = await authenticate(request);
+  if (error) {
+    return error;
+  }
+
+  const { tripId, matchedTripId, poolId } = await request.json();
+  if (!tripId || (!matchedTripId && !poolId)) {
+    return NextResponse.json(
+      { error: "tripId and either matchedTripId or poolId are required" },
+      { status: 400 }
+    );
+  }
+
+  const { data: trip, error: tripError } = await supabaseAdmin
+    .from("trips")
+    .select("id,user_email")
+    .eq("id", tripId)
+    .single();
+
+  if (tripError || !trip) {
+    return NextResponse.json({ error: tripError?.message || "Trip not found" }, { status: 404 });
+  }
+
+  if (trip.user_email !== user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  if (poolId) {
+    const { data: membership, error: membershipError } = await supabaseAdmin
+      .from("pool_members")
+      .select("trip_id")
+      .eq("pool_id", poolId)
+      .eq("trip_id", tripId)
+      .maybeSingle();
+
+    if (membershipError) {
+      return NextResponse.json({ error: membershipError.message }, { status: 500 });
+    }
+
+    if (!membership) {
+      return NextResponse.json({ error: "Trip is not in this pool" }, { status: 403 });
+    }
+  } else {
+    const { data: relations, error: relationsError } = await supabaseAdmin
+      .from("match_requests")
+      .select("trip_id")
+      .or(
+        `and(trip_id.eq.${tripId},matched_trip_id.eq.${matchedTripId}),and(trip_id.eq.${matchedTripId},matched_trip_id.eq.${tripId})`
+      );
+
+    if (relationsError) {
+      return NextResponse.json({ error: relationsError.message }, { status: 500 });
+    }
+
+    if ((relations ?? []).length === 0) {
+      return NextResponse.json(
+        { error: "Send a match request before messaging this traveler" },
+        { status: 403 }
+      );
+    }
+  }
+
+  const { data: threadId, error: openError } = await supabaseAdmin.rpc("message_thread_open", {
+    p_pool_id: poolId || null,
+    p_trip_id: tripId,
+    p_matched_trip_id: poolId ? null : matchedTripId
+  });
+
+  if (openError || !threadId) {
+    return NextResponse.json(
+      { error: openError?.message || "Failed to open the conversation" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ threadId });
+}
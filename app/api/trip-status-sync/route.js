@@ -10,24 +10,6 @@ const supabaseAdmin = supabaseUrl && serviceRoleKey
     })
   : null;
 
-const matchEmailFields = [
-  "match_email_0",
-  "match_email_1",
-  "match_email_2",
-  "match_email_3",
-  "match_email_4",
-  "match_email_5"
-];
-
-const matchStatusFields = [
-  "match_status_0",
-  "match_status_1",
-  "match_status_2",
-  "match_status_3",
-  "match_status_4",
-  "match_status_5"
-];
-
 export async function POST(request) {
   if (!supabaseAdmin) {
     return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
@@ -51,12 +33,7 @@ export async function POST(request) {
 
   const { data: trip, error: tripError } = await supabaseAdmin
     .from("trips")
-    .select([
-      "id",
-      "user_email",
-      ...matchEmailFields,
-      ...matchStatusFields
-    ].join(","))
+    .select("id,user_email")
     .eq("id", tripId)
     .single();
 
@@ -68,36 +45,33 @@ export async function POST(request) {
     return NextResponse.json({ error: "Not authorized" }, { status: 403 });
   }
 
-  const matchedEmails = matchEmailFields
-    .map((field, index) => ({
-      email: trip[field],
-      status: trip[matchStatusFields[index]]
-    }))
-    .filter((entry) => entry.email && entry.status === "matched")
-    .map((entry) => entry.email);
+  const { data: matchedRows, error: matchedRowsError } = await supabaseAdmin
+    .from("match_requests")
+    .select("matched_trip_id")
+    .eq("trip_id", trip.id)
+    .eq("status", "matched");
+
+  if (matchedRowsError) {
+    return NextResponse.json({ error: matchedRowsError.message }, { status: 500 });
+  }
 
+  const matchedTripIds = (matchedRows ?? []).map((row) => row.matched_trip_id);
   const updates = [{ id: trip.id, trip_status }];
 
-  if (matchedEmails.length > 0) {
-    const orFilters = matchEmailFields
-      .map((field, index) => {
-        const statusField = matchStatusFields[index];
-        return `and(${field}.eq.${trip.user_email},${statusField}.eq.matched)`;
-      })
-      .join(",");
-
-    const { data: matchedTrips, error: matchedTripsError } = await supabaseAdmin
-      .from("trips")
-      .select("id,user_email")
-      .in("user_email", matchedEmails)
-      .or(orFilters);
-
-    if (matchedTripsError) {
-      return NextResponse.json({ error: matchedTripsError.message }, { status: 500 });
+  if (matchedTripIds.length > 0) {
+    const { data: reciprocalRows, error: reciprocalError } = await supabaseAdmin
+      .from("match_requests")
+      .select("trip_id")
+      .in("trip_id", matchedTripIds)
+      .eq("matched_trip_id", trip.id)
+      .eq("status", "matched");
+
+    if (reciprocalError) {
+      return NextResponse.json({ error: reciprocalError.message }, { status: 500 });
     }
 
-    (matchedTrips ?? []).forEach((row) => {
-      updates.push({ id: row.id, trip_status });
+    (reciprocalRows ?? []).forEach((row) => {
+      updates.push({ id: row.trip_id, trip_status });
     });
   }
 
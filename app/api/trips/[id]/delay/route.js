@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { MAX_REPORTED_DELAY_MINUTES, applyTripDelay } from "../../../../../lib/tripDelays";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const tripId = params?.id;
+  const { delayMinutes } = await request.json();
+  if (
+    !tripId ||
+    !Number.isInteger(delayMinutes) ||
+    delayMinutes < 0 ||
+    delayMinutes > MAX_REPORTED_DELAY_MINUTES
+  ) {
+    return NextResponse.json(
+      { error: `delayMinutes must be a whole number from 0 to ${MAX_REPORTED_DELAY_MINUTES}` },
+      { status: 400 }
+    );
+  }
+
+  const { data: trip, error: tripError } = await supabaseAdmin
+    .from("trips")
+    .select("id,user_email")
+    .eq("id", tripId)
+    .single();
+
+  if (tripError || !trip) {
+    return NextResponse.json({ error: tripError?.message || "Trip not found" }, { status: 404 });
+  }
+
+  if (trip.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  const { error: delayError, brokenTripIds } = await applyTripDelay(
+    supabaseAdmin,
+    trip.id,
+    delayMinutes
+  );
+
+  if (delayError) {
+    return NextResponse.json({ error: delayError }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, delayMinutes, brokenTripIds });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  MAX_NEAR_MATCH_GAP_MINUTES,
+  extendTripWindow,
+  getNearMatchStretches
+} from "../../../../../lib/nearMatches";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+const windowFields =
+  "id,user_email,direction,window_start,window_end,min_hours_before,max_hours_before,window_shift_minutes";
+
+export async function POST(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const tripId = params?.id;
+  const { matchedTripId } = await request.json();
+  if (!tripId || !matchedTripId) {
+    return NextResponse.json({ error: "Trip id and matchedTripId are required" }, { status: 400 });
+  }
+
+  const { data: trips, error: tripsError } = await supabaseAdmin
+    .from("trips")
+    .select(windowFields)
+    .in("id", [tripId, matchedTripId]);
+
+  if (tripsError) {
+    return NextResponse.json({ error: tripsError.message }, { status: 500 });
+  }
+
+  const trip = (trips ?? []).find((row) => row.id === tripId);
+  const matchedTrip = (trips ?? []).find((row) => row.id === matchedTripId);
+  if (!trip || !matchedTrip) {
+    return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+  }
+
+  if (trip.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  if (trip.direction !== matchedTrip.direction) {
+    return NextResponse.json({ error: "These trips go in different directions." }, { status: 400 });
+  }
+
+  const stretches = getNearMatchStretches(trip, matchedTrip);
+  if (!stretches) {
+    return NextResponse.json({ error: "Your windows already overlap." }, { status: 400 });
+  }
+
+  if (stretches.gapMinutes > MAX_NEAR_MATCH_GAP_MINUTES) {
+    return NextResponse.json(
+      { error: `Windows can only be extended by up to ${MAX_NEAR_MATCH_GAP_MINUTES} minutes.` },
+      { status: 400 }
+    );
+  }
+
+  if (stretches.trip.error) {
+    return NextResponse.json({ error: stretches.trip.error }, { status: 400 });
+  }
+
+  const update = extendTripWindow(trip, stretches.trip.edge, stretches.trip.minutes);
+  const { error: updateError } = await supabaseAdmin.from("trips").update(update).eq("id", trip.id);
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, extended: stretches.trip, ...update });
+}
@@ -0,0 +1,437 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  compareMatches,
+  findCompatibleMatches,
+  getCandidateWindowBounds,
+  getFlightAffinity,
+  groupMatches,
+  windowsOverlap
+} from "../../../../../lib/matching";
+import { scoreMatch } from "../../../../../lib/matchScore";
+import { getNearMatchStretches, parseNearMatchGap } from "../../../../../lib/nearMatches";
+import { sumTripLoads } from "../../../../../lib/pools";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && serviceRoleKey
+  ? createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    })
+  : null;
+
+const tripFields = [
+  "id",
+  "user_email",
+  "direction",
+  "flight_date",
+  "flight_time",
+  "allowed_partner_sex",
+  "trip_status",
+  "window_start",
+  "window_end",
+  "willing_to_wait_until_time",
+  "min_hours_before",
+  "max_hours_before",
+  "window_shift_minutes",
+  "party_size",
+  "checked_bags",
+  "carry_on_bags",
+  "airline_code",
+  "flight_number",
+  "other_airport_code",
+  "campus_location",
+  "created_at"
+];
+
+// Receipts live in a private bucket, so members get short-lived links.
+const RECEIPT_URL_TTL_SECONDS = 60 * 60;
+
+const relationKey = (tripId, matchedTripId) => `${tripId}:${matchedTripId}`;
+
+const toVisibleMatch = (trip, candidate, profile, relations, compatibility) => {
+  const matchStatus = relations.get(relationKey(trip.id, candidate.id)) ?? null;
+
+  return {
+    id: candidate.id,
+    user_email: matchStatus ? candidate.user_email : null,
+    direction: candidate.direction,
+    flight_date: candidate.flight_date,
+    flight_time: candidate.flight_time,
+    allowed_partner_sex: candidate.allowed_partner_sex,
+    trip_status: candidate.trip_status,
+    window_start: candidate.window_start,
+    window_end: candidate.window_end,
+    willing_to_wait_until_time: candidate.willing_to_wait_until_time,
+    party_size: candidate.party_size,
+    checked_bags: candidate.checked_bags,
+    carry_on_bags: candidate.carry_on_bags,
+    airline_code: candidate.airline_code,
+    flight_number: candidate.flight_number,
+    other_airport_code: candidate.other_airport_code,
+    campus_location: candidate.campus_location,
+    created_at: candidate.created_at,
+    match_status: matchStatus,
+    reciprocal_status: relations.get(relationKey(candidate.id, trip.id)) ?? null,
+    flight_affinity: getFlightAffinity(trip, candidate),
+    compatibility: { score: compatibility.score, reasons: compatibility.reasons },
+    windows_overlap: windowsOverlap(
+      trip.window_start,
+      trip.window_end,
+      candidate.window_start,
+      candidate.window_end
+    ),
+    profile: profile
+      ? {
+          email: matchStatus ? profile.email : null,
+          name: profile.name ?? null,
+          sex: profile.sex ?? null,
+          major: profile.major ?? null,
+          graduation_year: profile.graduation_year ?? null,
+          phone: matchStatus ? profile.phone ?? null : null,
+          avatar_path: profile.avatar_path ?? null
+        }
+      : null
+  };
+};
+
+export async function GET(request, { params }) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: "Missing Supabase service role configuration" }, { status: 500 });
+  }
+
+  const authHeader = request.headers.get("authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    return NextResponse.json({ error: "Missing auth token" }, { status: 401 });
+  }
+
+  const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(token);
+  if (authError || !authData?.user) {
+    return NextResponse.json({ error: "Invalid auth token" }, { status: 401 });
+  }
+
+  const tripId = params?.id;
+  if (!tripId) {
+    return NextResponse.json({ error: "Trip id is required" }, { status: 400 });
+  }
+
+  const { data: trip, error: tripError } = await supabaseAdmin
+    .from("trips")
+    .select(tripFields.join(","))
+    .eq("id", tripId)
+    .single();
+
+  if (tripError || !trip) {
+    return NextResponse.json({ error: tripError?.message || "Trip not found" }, { status: 404 });
+  }
+
+  if (trip.user_email !== authData.user.email) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+  }
+
+  // Candidates are found by window instants, widened by the near-match gap, so
+  // windows that cross midnight still meet. Linked trips are always included
+  // so confirmed partners stay listed after a delay moves a window.
+  const nearGap = parseNearMatchGap(request.nextUrl.searchParams.get("nearGap"));
+  const windowBounds = getCandidateWindowBounds(trip, nearGap);
+  const { data: candidates, error: candidatesError } = windowBounds
+    ? await supabaseAdmin
+        .from("trips")
+        .select(tripFields.join(","))
+        .eq("direction", trip.direction)
+        .lte("window_start", windowBounds.latestStart)
+        .gte("window_end", windowBounds.earliestEnd)
+        .neq("user_email", trip.user_email)
+    : { data: [], error: null };
+
+  if (candidatesError) {
+    return NextResponse.json({ error: candidatesError.message }, { status: 500 });
+  }
+
+  const { data: linkedRows, error: linkedError } = await supabaseAdmin
+    .from("match_requests")
+    .select("matched_trip_id")
+    .eq("trip_id", trip.id);
+
+  if (linkedError) {
+    return NextResponse.json({ error: linkedError.message }, { status: 500 });
+  }
+
+  const windowCandidateIds = new Set((candidates ?? []).map((candidate) => candidate.id));
+  const linkedIds = (linkedRows ?? [])
+    .map((row) => row.matched_trip_id)
+    .filter((linkedId) => !windowCandidateIds.has(linkedId));
+  const { data: linkedTrips, error: linkedTripsError } = linkedIds.length
+    ? await supabaseAdmin.from("trips").select(tripFields.join(",")).in("id", linkedIds)
+    : { data: [], error: null };
+
+  if (linkedTripsError) {
+    return NextResponse.json({ error: linkedTripsError.message }, { status: 500 });
+  }
+
+  const candidateList = [...(candidates ?? []), ...(linkedTrips ?? [])];
+  const { data: profileRows, error: profilesError } = await supabaseAdmin
+    .from("profiles")
+    .select("email,name,sex,major,graduation_year,phone,avatar_path")
+    .in("email", [trip.user_email, ...candidateList.map((candidate) => candidate.user_email)]);
+
+  if (profilesError) {
+    return NextResponse.json({ error: profilesError.message }, { status: 500 });
+  }
+
+  const profileMap = new Map();
+  (profileRows ?? []).forEach((record) => {
+    profileMap.set(record.email, record);
+  });
+
+  if (!profileMap.get(trip.user_email)?.sex) {
+    return NextResponse.json({ error: "Trip owner profile is missing sex." }, { status: 400 });
+  }
+
+  const { data: relationRows, error: relationsError } = await supabaseAdmin
+    .from("match_requests")
+    .select("trip_id,matched_trip_id,status")
+    .in("trip_id", [trip.id, ...candidateList.map((candidate) => candidate.id)]);
+
+  if (relationsError) {
+    return NextResponse.json({ error: relationsError.message }, { status: 500 });
+  }
+
+  const relations = new Map();
+  const confirmedPartners = new Map();
+  (relationRows ?? []).forEach((row) => {
+    relations.set(relationKey(row.trip_id, row.matched_trip_id), row.status);
+    if (row.status === "matched") {
+      confirmedPartners.set(row.trip_id, [
+        ...(confirmedPartners.get(row.trip_id) ?? []),
+        row.matched_trip_id
+      ]);
+    }
+  });
+
+  // Pools are loaded by id so members outside the candidate list still count.
+  const { data: poolIdRows, error: poolIdsError } = await supabaseAdmin
+    .from("pool_members")
+    .select("pool_id")
+    .in("trip_id", [trip.id, ...candidateList.map((candidate) => candidate.id)]);
+
+  if (poolIdsError) {
+    return NextResponse.json({ error: poolIdsError.message }, { status: 500 });
+  }
+
+  const poolIds = Array.from(new Set((poolIdRows ?? []).map((row) => row.pool_id)));
+  const { data: membershipRows, error: membershipError } = poolIds.length
+    ? await supabaseAdmin
+        .from("pool_members")
+        .select("trip_id,pool_id,joined_at,pools(id,direction,flight_date,organizer_trip_id,booker_trip_id,vehicle_class,status)")
+        .in("pool_id", poolIds)
+        .order("joined_at", { ascending: true })
+    : { data: [], error: null };
+
+  if (membershipError) {
+    return NextResponse.json({ error: membershipError.message }, { status: 500 });
+  }
+
+  const poolsById = new Map();
+  const poolIdByTrip = new Map();
+  (membershipRows ?? []).forEach((row) => {
+    if (!row.pools) {
+      return;
+    }
+    const pool = poolsById.get(row.pool_id) ?? { ...row.pools, member_trip_ids: [] };
+    pool.member_trip_ids.push(row.trip_id);
+    poolsById.set(row.pool_id, pool);
+    poolIdByTrip.set(row.trip_id, row.pool_id);
+  });
+  const tripsById = new Map([trip, ...candidateList].map((row) => [row.id, row]));
+  const otherMemberIds = Array.from(poolIdByTrip.keys()).filter(
+    (memberId) => !tripsById.has(memberId)
+  );
+  const { data: memberTrips, error: memberTripsError } = otherMemberIds.length
+    ? await supabaseAdmin
+        .from("trips")
+        .select("id,user_email,party_size,checked_bags,carry_on_bags")
+        .in("id", otherMemberIds)
+    : { data: [], error: null };
+
+  if (memberTripsError) {
+    return NextResponse.json({ error: memberTripsError.message }, { status: 500 });
+  }
+
+  (memberTrips ?? []).forEach((row) => tripsById.set(row.id, row));
+  poolsById.forEach((pool) => {
+    pool.load = sumTripLoads(pool.member_trip_ids.map((memberId) => tripsById.get(memberId) ?? {}));
+  });
+  const getPool = (tripRow) => poolsById.get(poolIdByTrip.get(tripRow.id)) ?? null;
+
+  // Earlier trips of the viewer that ended in a confirmed ride, by partner email.
+  const { data: pastTrips, error: pastTripsError } = await supabaseAdmin
+    .from("trips")
+    .select("id")
+    .eq("user_email", trip.user_email)
+    .lt("flight_date", trip.flight_date);
+
+  if (pastTripsError) {
+    return NextResponse.json({ error: pastTripsError.message }, { status: 500 });
+  }
+
+  const { data: pastRideRows, error: pastRidesError } = (pastTrips ?? []).length
+    ? await supabaseAdmin
+        .from("match_requests")
+        .select("matched_trip_id,trips!matched_trip_id(user_email)")
+        .eq("status", "matched")
+        .in("trip_id", pastTrips.map((row) => row.id))
+    : { data: [], error: null };
+
+  if (pastRidesError) {
+    return NextResponse.json({ error: pastRidesError.message }, { status: 500 });
+  }
+
+  const pastRidesByEmail = new Map();
+  (pastRideRows ?? []).forEach((row) => {
+    const partnerEmail = row.trips?.user_email;
+    if (partnerEmail) {
+      pastRidesByEmail.set(partnerEmail, (pastRidesByEmail.get(partnerEmail) ?? 0) + 1);
+    }
+  });
+
+  const scores = new Map(
+    candidateList.map((candidate) => [
+      candidate.id,
+      scoreMatch(trip, candidate, {
+        pastRidesTogether: pastRidesByEmail.get(candidate.user_email) ?? 0
+      })
+    ])
+  );
+  const byScore = (a, b) => scores.get(b.id).score - scores.get(a.id).score;
+  const visibleMatch = (candidate) =>
+    toVisibleMatch(
+      trip,
+      candidate,
+      profileMap.get(candidate.user_email),
+      relations,
+      scores.get(candidate.id)
+    );
+
+  const confirmedIds = new Set(confirmedPartners.get(trip.id) ?? []);
+  const confirmed = candidateList
+    .filter((candidate) => confirmedIds.has(candidate.id))
+    .sort(compareMatches(trip));
+
+  const potential = findCompatibleMatches(
+    trip,
+    candidateList.filter((candidate) => !confirmedIds.has(candidate.id)),
+    profileMap,
+    { skipSatisfied: true }
+  ).sort(compareMatches(trip, byScore));
+  const potentialIds = new Set(potential.map((candidate) => candidate.id));
+
+  // Compatible in every way except that the windows miss by up to nearGap minutes.
+  const near = findCompatibleMatches(
+    trip,
+    candidateList.filter(
+      (candidate) => !confirmedIds.has(candidate.id) && !potentialIds.has(candidate.id)
+    ),
+    profileMap,
+    { skipSatisfied: true, maxWindowGapMinutes: nearGap }
+  )
+    .map((candidate) => ({ candidate, stretches: getNearMatchStretches(trip, candidate) }))
+    .filter(({ stretches }) => stretches)
+    .sort((a, b) => a.stretches.gapMinutes - b.stretches.gapMinutes)
+    .map(({ candidate, stretches }) => ({ ...visibleMatch(candidate), stretches }));
+
+  // A pool is only joinable when the viewer is compatible with every member.
+  const joinable = potential.filter((candidate) => {
+    const pool = getPool(candidate);
+    return !pool || pool.member_trip_ids.every((memberId) => potentialIds.has(memberId));
+  });
+
+  const groups = groupMatches(joinable, getPool).map((group) => ({
+    kind: group.kind,
+    pool: group.pool,
+    members: group.members.map(visibleMatch)
+  }));
+
+  const tripPool = getPool(trip);
+  const { data: expenseRow, error: expenseError } = tripPool
+    ? await supabaseAdmin
+        .from("pool_expenses")
+        .select(
+          "id,pool_id,payer_trip_id,amount,split_mode,receipt_path,updated_at,pool_expense_shares(trip_id,amount,paid_at)"
+        )
+        .eq("pool_id", tripPool.id)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (expenseError) {
+    return NextResponse.json({ error: expenseError.message }, { status: 500 });
+  }
+
+  const { data: receiptUrl } = expenseRow?.receipt_path
+    ? await supabaseAdmin.storage
+        .from("receipts")
+        .createSignedUrl(expenseRow.receipt_path, RECEIPT_URL_TTL_SECONDS)
+    : { data: null };
+
+  // Only the payer's payment handles are shared, so riders can pay them back.
+  // The payer is often a pool member outside the candidate list, so their
+  // trip and profile are loaded here rather than read from profileMap.
+  const { data: payerTrip, error: payerTripError } = expenseRow
+    ? await supabaseAdmin
+        .from("trips")
+        .select("user_email")
+        .eq("id", expenseRow.payer_trip_id)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (payerTripError) {
+    return NextResponse.json({ error: payerTripError.message }, { status: 500 });
+  }
+
+  const { data: payerProfile, error: payerProfileError } = payerTrip
+    ? await supabaseAdmin
+        .from("profiles")
+        .select("venmo_username,cashapp_cashtag,paypal_username")
+        .eq("email", payerTrip.user_email)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (payerProfileError) {
+    return NextResponse.json({ error: payerProfileError.message }, { status: 500 });
+  }
+
+  const expense = expenseRow
+    ? {
+        id: expenseRow.id,
+        pool_id: expenseRow.pool_id,
+        payer_trip_id: expenseRow.payer_trip_id,
+        amount: Number(expenseRow.amount),
+        split_mode: expenseRow.split_mode,
+        receipt_path: expenseRow.receipt_path,
+        receipt_url: receiptUrl?.signedUrl ?? null,
+        updated_at: expenseRow.updated_at,
+        shares: (expenseRow.pool_expense_shares ?? []).map((share) => ({
+          trip_id: share.trip_id,
+          amount: Number(share.amount),
+          paid_at: share.paid_at
+        })),
+        payer_payment_handles: {
+          venmo_username: payerProfile?.venmo_username ?? null,
+          cashapp_cashtag: payerProfile?.cashapp_cashtag ?? null,
+          paypal_username: payerProfile?.paypal_username ?? null
+        }
+      }
+    : null;
+
+  return NextResponse.json({
+    tripId: trip.id,
+    pool: tripPool,
+    expense,
+    confirmed: confirmed.map(visibleMatch),
+    groups,
+    near,
+    nearGap
+  });
+}
@@ -1,8 +1,66 @@
 "use client";
 
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
+import { supabase } from "../../lib/supabaseClient";
+import { MESSAGES_READ_EVENT, UNREAD_POLL_INTERVAL_MS } from "../../lib/messages";
 
 export default function AppNav() {
+  const [unreadMessages, setUnreadMessages] = useState(0);
+
+  const loadUnreadMessages = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+    if (!accessToken) {
+      return;
+    }
+
+    const response = await fetch("/api/threads", {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+    if (!response.ok) {
+      return;
+    }
+
+    const data = await response.json();
+    setUnreadMessages(data?.unread ?? 0);
+  }, []);
+
+  useEffect(() => {
+    loadUnreadMessages();
+
+    // Realtime only delivers messages from the rider's own threads (RLS), so
+    // any insert is worth a recount. Polling runs while it isn't connected.
+    let interval: number | null = window.setInterval(
+      loadUnreadMessages,
+      UNREAD_POLL_INTERVAL_MS
+    );
+    const channel = supabase
+      .channel("unread-messages")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages" }, () => {
+        loadUnreadMessages();
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          if (interval !== null) {
+            window.clearInterval(interval);
+            interval = null;
+          }
+        } else if (interval === null) {
+          interval = window.setInterval(loadUnreadMessages, UNREAD_POLL_INTERVAL_MS);
+        }
+      });
+    window.addEventListener(MESSAGES_READ_EVENT, loadUnreadMessages);
+
+    return () => {
+      supabase.removeChannel(channel);
+      if (interval !== null) {
+        window.clearInterval(interval);
+      }
+      window.removeEventListener(MESSAGES_READ_EVENT, loadUnreadMessages);
+    };
+  }, [loadUnreadMessages]);
+
   return (
     <nav className="flex flex-wrap items-center gap-4 text-sm font-medium text-slate-600">
       <Link className="hover:text-slate-900" href="/home">
@@ -11,8 +69,16 @@ export default function AppNav() {
       <Link className="hover:text-slate-900" href="/plan">
         Plan a trip
       </Link>
-      <Link className="hover:text-slate-900" href="/trips">
+      <Link className="inline-flex items-center gap-1.5 hover:text-slate-900" href="/trips">
         My Trips
+        {unreadMessages > 0 ? (
+          <span
+            className="rounded-full bg-red-600 px-1.5 py-0.5 text-xs font-semibold leading-none text-white"
+            aria-label={`${unreadMessages} unread messages`}
+          >
+            {unreadMessages}
+          </span>
+        ) : null}
       </Link>
       <Link className="hover:text-slate-900" href="/profile">
         Profile
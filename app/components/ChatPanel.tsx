@@ -0,0 +1,269 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../../lib/supabaseClient";
+import {
+  MAX_MESSAGE_LENGTH,
+  MESSAGES_READ_EVENT,
+  MESSAGE_POLL_INTERVAL_MS,
+  mergeMessages,
+  type ChatMember,
+  type ChatMessage
+} from "../../lib/messages";
+import type { QuickReplyTrip } from "../../lib/quickReplies";
+import { PITTSBURGH_TIME_ZONE } from "../../lib/time";
+import QuickReplyPicker from "./QuickReplyPicker";
+
+type ChatPanelProps = {
+  threadId: string;
+  title: string;
+  quickReplyTrip?: QuickReplyTrip | null;
+  onClose: () => void;
+};
+
+const formatMessageTime = (value: string) => {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: PITTSBURGH_TIME_ZONE
+  });
+};
+
+const getAccessToken = async () => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  return sessionData?.session?.access_token ?? null;
+};
+
+export default function ChatPanel({
+  threadId,
+  title,
+  quickReplyTrip,
+  onClose
+}: ChatPanelProps) {
+  const [members, setMembers] = useState<ChatMember[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
+  const latestMessage = useRef<ChatMessage | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  const markRead = useCallback(async () => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      return;
+    }
+
+    const response = await fetch(`/api/threads/${threadId}/read`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+
+    if (response.ok) {
+      window.dispatchEvent(new Event(MESSAGES_READ_EVENT));
+    }
+  }, [threadId]);
+
+  const loadMessages = useCallback(
+    async (after: ChatMessage | null) => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        setError("We couldn't confirm your session. Please log in again.");
+        return;
+      }
+
+      const query = after
+        ? `?after=${encodeURIComponent(after.created_at)}&afterId=${encodeURIComponent(after.id)}`
+        : "";
+      const response = await fetch(`/api/threads/${threadId}/messages${query}`, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data?.error || "Unable to load messages.");
+        return;
+      }
+
+      setMembers(data.members ?? []);
+      if ((data.messages ?? []).length > 0 || !after) {
+        setMessages((current) => mergeMessages(after ? current : [], data.messages ?? []));
+        markRead();
+      }
+    },
+    [threadId, markRead]
+  );
+
+  useEffect(() => {
+    setLoading(true);
+    loadMessages(null).finally(() => setLoading(false));
+  }, [loadMessages]);
+
+  useEffect(() => {
+    latestMessage.current = messages[messages.length - 1] ?? null;
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`messages:${threadId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `thread_id=eq.${threadId}`
+        },
+        (payload) => {
+          setMessages((current) => mergeMessages(current, [payload.new as ChatMessage]));
+          markRead();
+        }
+      )
+      .subscribe((status) => {
+        setRealtimeConnected(status === "SUBSCRIBED");
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [threadId, markRead]);
+
+  // Falls back to polling whenever Realtime isn't connected.
+  useEffect(() => {
+    if (realtimeConnected) {
+      return;
+    }
+
+    const interval = window.setInterval(() => {
+      loadMessages(latestMessage.current);
+    }, MESSAGE_POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(interval);
+  }, [realtimeConnected, loadMessages]);
+
+  const handleSend = async () => {
+    if (!draft.trim()) {
+      return;
+    }
+
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    const response = await fetch(`/api/threads/${threadId}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ body: draft })
+    });
+    const data = await response.json();
+    setSending(false);
+
+    if (!response.ok) {
+      setError(data?.error || "Unable to send your message.");
+      return;
+    }
+
+    setDraft("");
+    setMessages((current) => mergeMessages(current, [data.message]));
+  };
+
+  const getSender = (senderTripId: string | null) => {
+    return members.find((member) => member.trip_id === senderTripId) ?? null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 px-6">
+      <div className="flex max-h-[85vh] w-full max-w-lg flex-col rounded-xl bg-white p-6 shadow-lg">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              {members.map((member) => (member.is_you ? "You" : member.name)).join(", ")}
+            </p>
+          </div>
+          <button
+            type="button"
+            className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-slate-50"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+        <div className="mt-4 flex-1 space-y-3 overflow-y-auto rounded-md border border-slate-200 bg-slate-50 p-3">
+          {loading ? (
+            <p className="text-sm text-slate-600">Loading messages...</p>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No messages yet. Say hi and sort out where to meet.
+            </p>
+          ) : (
+            messages.map((message) => {
+              const sender = getSender(message.sender_trip_id);
+              return (
+                <div
+                  key={message.id}
+                  className={`flex flex-col ${sender?.is_you ? "items-end" : "items-start"}`}
+                >
+                  <p className="text-xs text-slate-500">
+                    {sender ? (sender.is_you ? "You" : sender.name) : "Former rider"} ·{" "}
+                    {formatMessageTime(message.created_at)}
+                  </p>
+                  <p
+                    className={`mt-1 max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                      sender?.is_you ? "bg-slate-900 text-white" : "bg-white text-slate-900"
+                    }`}
+                  >
+                    {message.body}
+                  </p>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+        {error ? <p className="mt-2 text-sm text-red-600">{error}</p> : null}
+        {quickReplyTrip ? (
+          <div className="mt-3">
+            <QuickReplyPicker trip={quickReplyTrip} actionLabel="Insert" onUse={setDraft} />
+          </div>
+        ) : null}
+        <div className="mt-3 flex flex-col gap-2 sm:flex-row">
+          <textarea
+            rows={2}
+            maxLength={MAX_MESSAGE_LENGTH}
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && !event.shiftKey) {
+                event.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Write a message"
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+          />
+          <button
+            type="button"
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-60"
+            onClick={handleSend}
+            disabled={sending || !draft.trim()}
+          >
+            {sending ? "Sending..." : "Send"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
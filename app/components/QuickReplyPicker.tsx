@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import {
+  QUICK_REPLY_FIELD_DEFAULTS,
+  QUICK_REPLY_FIELD_LABELS,
+  fillQuickReply,
+  getQuickReplyTemplates,
+  type QuickReplyField,
+  type QuickReplyTrip
+} from "../../lib/quickReplies";
+
+type QuickReplyPickerProps = {
+  trip: QuickReplyTrip;
+  actionLabel: string;
+  onUse: (text: string) => void;
+};
+
+export default function QuickReplyPicker({ trip, actionLabel, onUse }: QuickReplyPickerProps) {
+  const templates = getQuickReplyTemplates(trip.direction);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [fieldValues, setFieldValues] = useState<Partial<Record<QuickReplyField, string>>>({});
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+  const filled = selected ? fillQuickReply(selected, trip, fieldValues) : null;
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-slate-600">Quick replies</p>
+      <div className="mt-1 flex flex-wrap gap-1.5">
+        {templates.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            className={`rounded-full border px-2.5 py-1 text-xs font-medium ${
+              template.id === selectedId
+                ? "border-slate-900 bg-slate-900 text-white"
+                : "border-slate-300 bg-white text-slate-900 hover:bg-slate-50"
+            }`}
+            onClick={() => setSelectedId(template.id === selectedId ? null : template.id)}
+          >
+            {template.label}
+          </button>
+        ))}
+      </div>
+      {selected && filled ? (
+        <div className="mt-2 rounded-md border border-slate-200 bg-white p-2">
+          {selected.fields.length > 0 ? (
+            <div className="mb-2 flex flex-wrap gap-2">
+              {selected.fields.map((field) => (
+                <label key={field} className="flex items-center gap-1.5 text-xs text-slate-600">
+                  {QUICK_REPLY_FIELD_LABELS[field]}
+                  <input
+                    type="text"
+                    value={fieldValues[field] ?? QUICK_REPLY_FIELD_DEFAULTS[field]}
+                    placeholder={field === "carousel" ? "e.g. 4" : undefined}
+                    onChange={(event) =>
+                      setFieldValues({ ...fieldValues, [field]: event.target.value })
+                    }
+                    className="w-20 rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-900"
+                  />
+                </label>
+              ))}
+            </div>
+          ) : null}
+          <p className="whitespace-pre-wrap text-xs text-slate-700">{filled.text}</p>
+          <button
+            type="button"
+            className="mt-2 rounded-md border border-slate-300 px-2 py-1 text-xs font-medium text-slate-900 hover:bg-slate-50 disabled:opacity-60"
+            disabled={filled.missing.length > 0}
+            onClick={() => {
+              onUse(filled.text);
+              setSelectedId(null);
+            }}
+          >
+            {actionLabel}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
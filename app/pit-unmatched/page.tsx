@@ -1,9 +1,11 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
 import AppNav from "../components/AppNav";
+import { findCompatibleMatches, getCandidateWindowBounds } from "../../lib/matching";
+import { addMinutes, toPittsburghDateTime, toPittsburghInstant } from "../../lib/time";
 
 type ProfileData = {
   name: string;
@@ -45,38 +47,6 @@ const initialProfileState: ProfileData = {
   email: ""
 };
 
-const toDateTimeEST = (dateValue: string, timeValue: string) => {
-  const [year, month, day] = dateValue.split("-").map(Number);
-  const [hour, minute = 0] = timeValue.split(":").map(Number);
-
-  if (!year || !month || !day || Number.isNaN(hour) || Number.isNaN(minute)) {
-    return new Date("invalid");
-  }
-
-  const utcMillis = Date.UTC(year, month - 1, day, hour + 5, minute);
-  return new Date(utcMillis);
-};
-
-const formatDateEST = (dateValue: Date) => {
-  return new Intl.DateTimeFormat("en-CA", { timeZone: "America/New_York" }).format(dateValue);
-};
-
-const formatTimeEST = (dateValue: Date) => {
-  return new Intl.DateTimeFormat("en-GB", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false
-  }).format(dateValue);
-};
-
-const getNowEST = () => {
-  const now = new Date();
-  const dateValue = formatDateEST(now);
-  const timeValue = formatTimeEST(now);
-  return toDateTimeEST(dateValue, timeValue);
-};
-
 export default function PitUnmatchedPage() {
   const router = useRouter();
   const [email, setEmail] = useState("");
@@ -95,6 +65,7 @@ export default function PitUnmatchedPage() {
   const [candidates, setCandidates] = useState<CandidateRecord[]>([]);
   const [loadingCandidates, setLoadingCandidates] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [landedAt, setLandedAt] = useState<Date | null>(null);
 
   const isProfileComplete = Boolean(
     profile.name &&
@@ -194,19 +165,25 @@ export default function PitUnmatchedPage() {
     setProfileSaving(false);
   };
 
-  const loadCandidates = async (windowEnd: Date) => {
+  const loadCandidates = async (trip: TripRecord) => {
     if (!email) {
       return;
     }
 
+    const windowBounds = getCandidateWindowBounds(trip);
+    if (!windowBounds) {
+      setCandidates([]);
+      return;
+    }
+
     setLoadingCandidates(true);
 
-    const dateValue = formatDateEST(windowEnd);
     const { data, error } = await supabase
       .from("trips")
       .select("id,user_email,direction,flight_date,flight_time,allowed_partner_sex,window_start,window_end,created_at")
-      .eq("direction", "Arriving to Pittsburgh")
-      .eq("flight_date", dateValue)
+      .eq("direction", trip.direction)
+      .lte("window_start", windowBounds.latestStart)
+      .gte("window_end", windowBounds.earliestEnd)
       .neq("user_email", email);
 
     if (error) {
@@ -238,17 +215,26 @@ export default function PitUnmatchedPage() {
       });
     });
 
-    const filtered = candidateList
+    profileMap.set(trip.user_email, {
+      email: trip.user_email,
+      name: profile.name,
+      sex: profile.sex,
+      major: profile.major,
+      graduation_year: profile.graduationYear
+    });
+
+    const windowEnd = new Date(trip.window_end ?? "");
+    const cutoff = addMinutes(windowEnd, -15);
+    const filtered = findCompatibleMatches(trip, candidateList, profileMap)
       .map((candidate) => ({
         ...candidate,
         profile: profileMap.get(candidate.user_email) ?? null
       }))
       .filter((candidate) => {
-        const candidateTime = toDateTimeEST(candidate.flight_date, candidate.flight_time);
+        const candidateTime = toPittsburghInstant(candidate.flight_date, candidate.flight_time);
         if (Number.isNaN(candidateTime.getTime())) {
           return false;
         }
-        const cutoff = new Date(windowEnd.getTime() - 15 * 60 * 1000);
         return candidateTime <= cutoff;
       });
 
@@ -272,11 +258,10 @@ export default function PitUnmatchedPage() {
       return;
     }
 
-    const nowEST = getNowEST();
-    const windowEnd = new Date(nowEST.getTime() + minutes * 60 * 1000);
-    const flightDate = formatDateEST(nowEST);
-    const flightTime = formatTimeEST(nowEST);
-    const willingToWaitUntil = formatTimeEST(windowEnd);
+    const now = new Date();
+    const windowEnd = addMinutes(now, minutes);
+    const { date: flightDate, time: flightTime } = toPittsburghDateTime(now);
+    const { time: willingToWaitUntil } = toPittsburghDateTime(windowEnd);
 
     setSubmitting(true);
     const payload = {
@@ -288,34 +273,37 @@ export default function PitUnmatchedPage() {
       willing_to_wait_until_time: willingToWaitUntil,
       min_hours_before: null,
       max_hours_before: null,
-      window_start: nowEST.toISOString(),
+      window_start: now.toISOString(),
       window_end: windowEnd.toISOString()
     };
 
-    const { error: insertError } = await supabase.from("trips").insert(payload);
+    const { data: insertedTrip, error: insertError } = await supabase
+      .from("trips")
+      .insert(payload)
+      .select("id,user_email,direction,flight_date,flight_time,allowed_partner_sex,window_start,window_end,created_at")
+      .single();
 
-    if (insertError) {
-      setSubmitError(insertError.message);
+    if (insertError || !insertedTrip) {
+      setSubmitError(insertError?.message || "Unable to save your arrival window.");
       setSubmitting(false);
       return;
     }
 
     setSubmitSuccess("We saved your arrival window. Looking for matches...");
-    await loadCandidates(windowEnd);
+    setLandedAt(now);
+    await loadCandidates(insertedTrip);
     setHasSubmitted(true);
     setSubmitting(false);
   };
 
-  const nowEST = useMemo(() => getNowEST(), []);
-
   const nowCandidates = candidates.filter((candidate) => {
-    const candidateTime = toDateTimeEST(candidate.flight_date, candidate.flight_time);
-    return candidateTime.getTime() <= nowEST.getTime();
+    const candidateTime = toPittsburghInstant(candidate.flight_date, candidate.flight_time);
+    return candidateTime.getTime() <= (landedAt ?? new Date()).getTime();
   });
 
   const soonCandidates = candidates.filter((candidate) => {
-    const candidateTime = toDateTimeEST(candidate.flight_date, candidate.flight_time);
-    return candidateTime.getTime() > nowEST.getTime();
+    const candidateTime = toPittsburghInstant(candidate.flight_date, candidate.flight_time);
+    return candidateTime.getTime() > (landedAt ?? new Date()).getTime();
   });
 
   return (
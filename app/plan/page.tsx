@@ -4,6 +4,10 @@ import { useEffect, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
 import AppNav from "../components/AppNav";
+import { addDaysToDate, addHours, toPittsburghInstant } from "../../lib/time";
+import { AIRLINES, AIRPORTS, PITTSBURGH_AIRPORT_CODE, validateFlightDetails } from "../../lib/flights";
+import { MAX_PARTY_SIZE, getSmallestVehicleClass } from "../../lib/pools";
+import { CAMPUS_LOCATIONS, isCampusLocationCode } from "../../lib/campusLocations";
 
 const PREFILL_DIRECTION_KEY = "tartantrips:prefill_direction";
 
@@ -15,6 +19,13 @@ type TripFormState = {
   willingToWaitUntil: string;
   minHoursBefore: string;
   maxHoursBefore: string;
+  partySize: string;
+  checkedBags: string;
+  carryOnBags: string;
+  airlineCode: string;
+  flightNumber: string;
+  otherAirportCode: string;
+  campusLocation: string;
 };
 
 type TripRecord = {
@@ -48,7 +59,14 @@ const initialFormState: TripFormState = {
   allowedPartnerSex: "",
   willingToWaitUntil: "",
   minHoursBefore: "",
-  maxHoursBefore: ""
+  maxHoursBefore: "",
+  partySize: "1",
+  checkedBags: "0",
+  carryOnBags: "0",
+  airlineCode: "",
+  flightNumber: "",
+  otherAirportCode: "",
+  campusLocation: ""
 };
 
 const initialProfileState: ProfileData = {
@@ -73,22 +91,6 @@ const normalizeTime = (value: string | null) => {
   return value.length >= 5 ? value.slice(0, 5) : value;
 };
 
-const toDateTimeEST = (dateValue: string, timeValue: string) => {
-  const [year, month, day] = dateValue.split("-").map(Number);
-  const [hour, minute = 0] = timeValue.split(":").map(Number);
-
-  if (!year || !month || !day || Number.isNaN(hour) || Number.isNaN(minute)) {
-    return new Date("invalid");
-  }
-
-  const utcMillis = Date.UTC(year, month - 1, day, hour + 5, minute);
-  return new Date(utcMillis);
-};
-
-const addHours = (dateValue: Date, hours: number) => {
-  return new Date(dateValue.getTime() + hours * 60 * 60 * 1000);
-};
-
 export default function PlanTripPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -108,6 +110,7 @@ export default function PlanTripPage() {
   const [profileNotice, setProfileNotice] = useState("");
   const [trips, setTrips] = useState<TripRecord[]>([]);
   const [editingTripId, setEditingTripId] = useState<string | null>(null);
+  const [followFlight, setFollowFlight] = useState(false);
   const [profile, setProfile] = useState<ProfileData>(initialProfileState);
 
   const isArrival = form.direction === "Arriving to Pittsburgh";
@@ -230,7 +233,7 @@ export default function PlanTripPage() {
       const { data, error: fetchError } = await supabase
         .from("trips")
         .select(
-          "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,willing_to_wait_until_time,min_hours_before,max_hours_before"
+          "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,willing_to_wait_until_time,min_hours_before,max_hours_before,party_size,checked_bags,carry_on_bags,airline_code,flight_number,other_airport_code,campus_location,follow_flight"
         )
         .eq("id", tripId)
         .eq("user_email", email)
@@ -248,8 +251,16 @@ export default function PlanTripPage() {
         allowedPartnerSex: data.allowed_partner_sex,
         willingToWaitUntil: normalizeTime(data.willing_to_wait_until_time),
         minHoursBefore: data.min_hours_before?.toString() ?? "",
-        maxHoursBefore: data.max_hours_before?.toString() ?? ""
+        maxHoursBefore: data.max_hours_before?.toString() ?? "",
+        partySize: data.party_size?.toString() ?? "1",
+        checkedBags: data.checked_bags?.toString() ?? "0",
+        carryOnBags: data.carry_on_bags?.toString() ?? "0",
+        airlineCode: data.airline_code ?? "",
+        flightNumber: data.flight_number ?? "",
+        otherAirportCode: data.other_airport_code ?? "",
+        campusLocation: data.campus_location ?? ""
       });
+      setFollowFlight(Boolean(data.follow_flight));
       setEditingTripId(data.id);
     };
 
@@ -333,7 +344,7 @@ export default function PlanTripPage() {
       return { error: "Please complete the required trip details." };
     }
 
-    const flightDateTime = toDateTimeEST(flightDate, flightTime);
+    const flightDateTime = toPittsburghInstant(flightDate, flightTime);
 
     if (Number.isNaN(flightDateTime.getTime())) {
       return { error: "Please enter a valid flight date and time." };
@@ -344,13 +355,13 @@ export default function PlanTripPage() {
         return { error: "Please enter how long you're willing to wait." };
       }
 
-      const waitUntil = toDateTimeEST(flightDate, form.willingToWaitUntil);
+      let waitUntil = toPittsburghInstant(flightDate, form.willingToWaitUntil);
       if (Number.isNaN(waitUntil.getTime())) {
         return { error: "Please enter a valid wait-until time." };
       }
 
       if (waitUntil < flightDateTime) {
-        waitUntil.setDate(waitUntil.getDate() + 1);
+        waitUntil = toPittsburghInstant(addDaysToDate(flightDate, 1), form.willingToWaitUntil);
       }
 
       return {
@@ -389,6 +400,32 @@ export default function PlanTripPage() {
     };
   };
 
+  const validateLoad = () => {
+    const partySize = Number(form.partySize);
+    const checkedBags = Number(form.checkedBags);
+    const carryOnBags = Number(form.carryOnBags);
+
+    if (
+      ![partySize, checkedBags, carryOnBags].every(Number.isInteger) ||
+      partySize < 1 ||
+      checkedBags < 0 ||
+      carryOnBags < 0
+    ) {
+      return { error: "Please enter whole numbers for your party size and bags." };
+    }
+
+    if (partySize > MAX_PARTY_SIZE) {
+      return { error: `Party size can be at most ${MAX_PARTY_SIZE} so someone can join you.` };
+    }
+
+    const load = { party_size: partySize, checked_bags: checkedBags, carry_on_bags: carryOnBags };
+    if (!getSmallestVehicleClass([load])) {
+      return { error: "That many bags won't fit in any rideshare vehicle." };
+    }
+
+    return { load };
+  };
+
   const hasDuplicateTrip = () => {
     if (!form.direction || !form.flightDate) {
       return false;
@@ -436,6 +473,23 @@ export default function PlanTripPage() {
       return;
     }
 
+    const { load, error: loadError } = validateLoad();
+    if (loadError || !load) {
+      setError(loadError);
+      return;
+    }
+
+    const flight = validateFlightDetails(form);
+    if (flight.error) {
+      setError(flight.error);
+      return;
+    }
+
+    if (form.campusLocation && !isCampusLocationCode(form.campusLocation)) {
+      setError("Please choose a campus location from the list.");
+      return;
+    }
+
     setSaving(true);
     const payload = {
       user_email: email,
@@ -450,7 +504,12 @@ export default function PlanTripPage() {
       min_hours_before: computed.minHoursBefore,
       max_hours_before: computed.maxHoursBefore,
       window_start: computed.windowStart?.toISOString(),
-      window_end: computed.windowEnd?.toISOString()
+      window_end: computed.windowEnd?.toISOString(),
+      ...load,
+      ...flight.details,
+      campus_location: form.campusLocation || null,
+      follow_flight: followFlight && Boolean(flight.details.flight_number),
+      window_shift_minutes: 0
     };
 
     const notifyMatches = async (tripId: string) => {
@@ -509,6 +568,7 @@ export default function PlanTripPage() {
   const cancelEdit = () => {
     setEditingTripId(null);
     setForm(initialFormState);
+    setFollowFlight(false);
     setError("");
     setSuccess("");
     router.replace("/plan");
@@ -706,6 +766,125 @@ export default function PlanTripPage() {
                     </div>
                   </div>
 
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700" htmlFor="airlineCode">
+                        Airline (optional)
+                      </label>
+                      <select
+                        id="airlineCode"
+                        name="airlineCode"
+                        value={form.airlineCode}
+                        onChange={(event) => updateForm("airlineCode", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-900"
+                      >
+                        <option value="">Not sure yet</option>
+                        {AIRLINES.map((airline) => (
+                          <option key={airline.code} value={airline.code}>
+                            {airline.name} ({airline.code})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700" htmlFor="flightNumber">
+                        Flight number (optional)
+                      </label>
+                      <input
+                        id="flightNumber"
+                        name="flightNumber"
+                        type="text"
+                        inputMode="numeric"
+                        placeholder="1234"
+                        value={form.flightNumber}
+                        onChange={(event) => updateForm("flightNumber", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                      />
+                    </div>
+                    <div>
+                      <label
+                        className="block text-sm font-medium text-slate-700"
+                        htmlFor="otherAirportCode"
+                      >
+                        {isArrival ? "Flying in from (optional)" : "Flying to (optional)"}
+                      </label>
+                      <input
+                        id="otherAirportCode"
+                        name="otherAirportCode"
+                        type="text"
+                        list="airportCodes"
+                        maxLength={3}
+                        placeholder="ORD"
+                        value={form.otherAirportCode}
+                        onChange={(event) =>
+                          updateForm("otherAirportCode", event.target.value.toUpperCase())
+                        }
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 uppercase text-slate-900"
+                      />
+                      <datalist id="airportCodes">
+                        {AIRPORTS.filter((airport) => airport.code !== PITTSBURGH_AIRPORT_CODE).map(
+                          (airport) => (
+                            <option key={airport.code} value={airport.code}>
+                              {airport.city} · {airport.name}
+                            </option>
+                          )
+                        )}
+                      </datalist>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700" htmlFor="campusLocation">
+                      {isArrival ? "Drop-off location" : "Pick-up location"}
+                    </label>
+                    <select
+                      id="campusLocation"
+                      name="campusLocation"
+                      value={form.campusLocation}
+                      onChange={(event) => updateForm("campusLocation", event.target.value)}
+                      className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-900"
+                    >
+                      <option value="">CMU campus (anywhere)</option>
+                      <optgroup label="Campus">
+                        {CAMPUS_LOCATIONS.filter((location) => location.kind === "campus").map(
+                          (location) => (
+                            <option key={location.code} value={location.code}>
+                              {location.name}
+                            </option>
+                          )
+                        )}
+                      </optgroup>
+                      <optgroup label="Neighborhoods">
+                        {CAMPUS_LOCATIONS.filter((location) => location.kind === "neighborhood").map(
+                          (location) => (
+                            <option key={location.code} value={location.code}>
+                              {location.name}
+                            </option>
+                          )
+                        )}
+                      </optgroup>
+                    </select>
+                  </div>
+
+                  <label className="flex items-start gap-2 text-sm text-slate-700" htmlFor="followFlight">
+                    <input
+                      id="followFlight"
+                      name="followFlight"
+                      type="checkbox"
+                      checked={followFlight && Boolean(form.flightNumber.trim())}
+                      onChange={(event) => setFollowFlight(event.target.checked)}
+                      disabled={!form.flightNumber.trim()}
+                      className="mt-1"
+                    />
+                    <span>
+                      Follow my flight
+                      <span className="block text-xs text-slate-500">
+                        When your flight is reported delayed, your window moves later by the delay.
+                        Needs a flight number.
+                      </span>
+                    </span>
+                  </label>
+
                   {isArrival ? (
                     <div>
                       <label
@@ -769,6 +948,62 @@ export default function PlanTripPage() {
                     </div>
                   ) : null}
 
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700" htmlFor="partySize">
+                        Party size
+                      </label>
+                      <input
+                        id="partySize"
+                        name="partySize"
+                        type="number"
+                        min="1"
+                        max={MAX_PARTY_SIZE}
+                        step="1"
+                        value={form.partySize}
+                        onChange={(event) => updateForm("partySize", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700" htmlFor="checkedBags">
+                        Checked bags
+                      </label>
+                      <input
+                        id="checkedBags"
+                        name="checkedBags"
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={form.checkedBags}
+                        onChange={(event) => updateForm("checkedBags", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700" htmlFor="carryOnBags">
+                        Carry-on bags
+                      </label>
+                      <input
+                        id="carryOnBags"
+                        name="carryOnBags"
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={form.carryOnBags}
+                        onChange={(event) => updateForm("carryOnBags", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                        required
+                      />
+                    </div>
+                    <p className="text-xs text-slate-500 md:col-span-3">
+                      Include anyone travelling with you. Pools only accept riders whose people and
+                      bags fit the chosen vehicle.
+                    </p>
+                  </div>
+
                   <div>
                     <label
                       className="block text-sm font-medium text-slate-700"
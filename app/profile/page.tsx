@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
 import AppNav from "../components/AppNav";
+import { normalizePaymentHandle } from "../../lib/payments";
 
 type ProfileFormState = {
   name: string;
@@ -12,6 +13,9 @@ type ProfileFormState = {
   sex: string;
   phone: string;
   avatarPath: string;
+  venmoUsername: string;
+  cashappCashtag: string;
+  paypalUsername: string;
 };
 
 const SEX_OPTIONS = ["Male", "Female", "Non-binary"] as const;
@@ -22,7 +26,10 @@ const initialProfileState: ProfileFormState = {
   graduationYear: "",
   sex: "",
   phone: "",
-  avatarPath: ""
+  avatarPath: "",
+  venmoUsername: "",
+  cashappCashtag: "",
+  paypalUsername: ""
 };
 
 export default function ProfilePage() {
@@ -51,7 +58,9 @@ export default function ProfilePage() {
 
       const { data: profileData } = await supabase
         .from("profiles")
-        .select("name,major,graduation_year,sex,phone,avatar_path")
+        .select(
+          "name,major,graduation_year,sex,phone,avatar_path,venmo_username,cashapp_cashtag,paypal_username"
+        )
         .eq("user_id", data.user.id)
         .single();
 
@@ -61,7 +70,10 @@ export default function ProfilePage() {
         graduationYear: profileData?.graduation_year ?? "",
         sex: profileData?.sex ?? "",
         phone: profileData?.phone ?? "",
-        avatarPath: profileData?.avatar_path ?? ""
+        avatarPath: profileData?.avatar_path ?? "",
+        venmoUsername: profileData?.venmo_username ?? "",
+        cashappCashtag: profileData?.cashapp_cashtag ?? "",
+        paypalUsername: profileData?.paypal_username ?? ""
       });
       setLoading(false);
     };
@@ -83,6 +95,15 @@ export default function ProfilePage() {
       return;
     }
 
+    const venmo = normalizePaymentHandle("venmo", form.venmoUsername);
+    const cashapp = normalizePaymentHandle("cashapp", form.cashappCashtag);
+    const paypal = normalizePaymentHandle("paypal", form.paypalUsername);
+    const paymentError = venmo.error || cashapp.error || paypal.error;
+    if (paymentError) {
+      setError(paymentError);
+      return;
+    }
+
     setSaving(true);
     if (!userId) {
       setError("We couldn't confirm your session. Please log in again.");
@@ -99,7 +120,10 @@ export default function ProfilePage() {
         graduation_year: form.graduationYear,
         sex: form.sex,
         phone: form.phone,
-        avatar_path: form.avatarPath || null
+        avatar_path: form.avatarPath || null,
+        venmo_username: venmo.handle,
+        cashapp_cashtag: cashapp.handle,
+        paypal_username: paypal.handle
       },
       { onConflict: "user_id" }
     );
@@ -322,6 +346,56 @@ export default function ProfilePage() {
                     required
                   />
                 </div>
+                <div>
+                  <p className="text-sm font-medium text-slate-700">Getting paid back (optional)</p>
+                  <p className="text-xs text-slate-500">
+                    When you pay for a shared ride, your pool gets payment links to these accounts.
+                  </p>
+                  <div className="mt-2 grid gap-4 sm:grid-cols-3">
+                    <div>
+                      <label className="block text-xs font-medium text-slate-600" htmlFor="venmoUsername">
+                        Venmo username
+                      </label>
+                      <input
+                        id="venmoUsername"
+                        name="venmoUsername"
+                        type="text"
+                        value={form.venmoUsername}
+                        onChange={(event) => updateForm("venmoUsername", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                        placeholder="@username"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-slate-600" htmlFor="cashappCashtag">
+                        Cash App $cashtag
+                      </label>
+                      <input
+                        id="cashappCashtag"
+                        name="cashappCashtag"
+                        type="text"
+                        value={form.cashappCashtag}
+                        onChange={(event) => updateForm("cashappCashtag", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                        placeholder="$cashtag"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-slate-600" htmlFor="paypalUsername">
+                        PayPal.Me username
+                      </label>
+                      <input
+                        id="paypalUsername"
+                        name="paypalUsername"
+                        type="text"
+                        value={form.paypalUsername}
+                        onChange={(event) => updateForm("paypalUsername", event.target.value)}
+                        className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                        placeholder="username"
+                      />
+                    </div>
+                  </div>
+                </div>
               </div>
             </div>
 
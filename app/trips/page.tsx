@@ -1,10 +1,73 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
 import AppNav from "../components/AppNav";
+import ChatPanel from "../components/ChatPanel";
+import QuickReplyPicker from "../components/QuickReplyPicker";
+import { formatCampusLocation } from "../../lib/campusLocations";
+import {
+  FARE_SPLIT_MODES,
+  FARE_SPLIT_MODE_LABELS,
+  estimateFare,
+  formatFareAmount,
+  splitFare,
+  type FareSplitMode
+} from "../../lib/fares";
+import { formatFlightSummary, getFlightTrackerLinks } from "../../lib/flights";
+import {
+  MESSAGES_READ_EVENT,
+  findMatchThread,
+  findPoolThread,
+  type MessageThreadSummary
+} from "../../lib/messages";
+import { getPaymentLinks, type PoolExpense } from "../../lib/payments";
+import { compareByFlightProximity, type FlightAffinity, type MatchGroup } from "../../lib/matching";
+import type { MatchScore } from "../../lib/matchScore";
+import {
+  DEFAULT_NEAR_MATCH_GAP_MINUTES,
+  NEAR_MATCH_GAP_OPTIONS,
+  type NearMatchStretches,
+  type WindowStretch
+} from "../../lib/nearMatches";
+import {
+  VEHICLE_CLASSES,
+  VEHICLE_LIMITS,
+  formatTripLoad,
+  getPoolJoinError,
+  getSmallestVehicleClass,
+  isPoolOrganizer,
+  type PoolSummary,
+  type VehicleClass
+} from "../../lib/pools";
+import {
+  formatPoolRoute,
+  getTripDetourMiles,
+  planPoolRoute,
+  type PoolRoute
+} from "../../lib/poolRoutes";
+import { getPoolRidePoints, getRideHailingLinks } from "../../lib/rideHailing";
+import {
+  describeMatchStatusChange,
+  getAllowedActions,
+  getMatchRole,
+  type MatchAction,
+  type MatchRole
+} from "../../lib/matchStateMachine";
+import {
+  formatDateLong,
+  formatTime12h,
+  toPittsburghDateTime,
+  toPittsburghInstant
+} from "../../lib/time";
+
+type TripMatchRequest = {
+  id: string;
+  matched_trip_id: string;
+  status: string;
+};
 
 type TripRecord = {
   id: string;
@@ -16,29 +79,31 @@ type TripRecord = {
   trip_status: string | null;
   landed_status: string | null;
   meetup_status: string | null;
-  match_email_0: string | null;
-  match_email_1: string | null;
-  match_email_2: string | null;
-  match_email_3: string | null;
-  match_email_4: string | null;
-  match_email_5: string | null;
-  match_status_0: string | null;
-  match_status_1: string | null;
-  match_status_2: string | null;
-  match_status_3: string | null;
-  match_status_4: string | null;
-  match_status_5: string | null;
+  match_requests: TripMatchRequest[];
   willing_to_wait_until_time: string | null;
   min_hours_before: number | null;
   max_hours_before: number | null;
   window_start: string | null;
   window_end: string | null;
+  party_size: number;
+  checked_bags: number;
+  carry_on_bags: number;
+  airline_code: string | null;
+  flight_number: string | null;
+  other_airport_code: string | null;
+  campus_location: string | null;
+  flight_status: string | null;
+  flight_delay_minutes: number;
+  flight_gate: string | null;
+  follow_flight: boolean;
+  window_shift_minutes: number;
   created_at: string;
 };
 
 type MatchRecord = {
   id: string;
-  user_email: string;
+  // Withheld until there is a match request between the trips.
+  user_email: string | null;
   direction: string;
   flight_date: string;
   flight_time: string;
@@ -46,25 +111,29 @@ type MatchRecord = {
   window_start: string | null;
   window_end: string | null;
   willing_to_wait_until_time: string | null;
+  party_size: number;
+  checked_bags: number;
+  carry_on_bags: number;
+  airline_code: string | null;
+  flight_number: string | null;
+  other_airport_code: string | null;
+  campus_location: string | null;
   created_at: string;
   trip_status: string | null;
-  match_email_0: string | null;
-  match_email_1: string | null;
-  match_email_2: string | null;
-  match_email_3: string | null;
-  match_email_4: string | null;
-  match_email_5: string | null;
-  match_status_0: string | null;
-  match_status_1: string | null;
-  match_status_2: string | null;
-  match_status_3: string | null;
-  match_status_4: string | null;
-  match_status_5: string | null;
+  match_status: string | null;
+  reciprocal_status: string | null;
+  flight_affinity: FlightAffinity | null;
+  windows_overlap: boolean;
+  compatibility: Pick<MatchScore, "score" | "reasons">;
   profile?: ProfileRecord | null;
 };
 
+type NearMatchRecord = MatchRecord & {
+  stretches: NearMatchStretches;
+};
+
 type ProfileRecord = {
-  email: string;
+  email: string | null;
   name: string | null;
   sex: string | null;
   major: string | null;
@@ -73,11 +142,16 @@ type ProfileRecord = {
   avatar_path: string | null;
 };
 
-type MatchGroup = {
-  kind: "single" | "pair";
-  members: MatchRecord[];
+type TripMatches = {
+  pool: PoolSummary | null;
+  confirmed: MatchRecord[];
+  groups: MatchGroup<MatchRecord>[];
+  near: NearMatchRecord[];
+  expense: PoolExpense | null;
 };
 
+const TOAST_DURATION_MS = 6000;
+
 const normalizeTime = (value: string | null) => {
   if (!value) {
     return "";
@@ -86,95 +160,48 @@ const normalizeTime = (value: string | null) => {
   return value.length >= 5 ? value.slice(0, 5) : value;
 };
 
-const toDateTimeEST = (dateValue: string, timeValue: string) => {
-  const [year, month, day] = dateValue.split("-").map(Number);
-  const [hour, minute = 0] = timeValue.split(":").map(Number);
-
-  if (!year || !month || !day || Number.isNaN(hour) || Number.isNaN(minute)) {
-    return new Date("invalid");
-  }
-
-  const utcMillis = Date.UTC(year, month - 1, day, hour + 5, minute);
-  return new Date(utcMillis);
+const formatDateShort = (dateValue: string) => {
+  return formatDateLong(dateValue).replace(/, \d{4}$/, "");
 };
 
-const diffMinutes = (dateValue: string, timeA: string, timeB: string) => {
-  const a = toDateTimeEST(dateValue, timeA);
-  const b = toDateTimeEST(dateValue, timeB);
-
-  if (Number.isNaN(a.getTime()) || Number.isNaN(b.getTime())) {
-    return Number.POSITIVE_INFINITY;
+// Windows are instants that can cross midnight, so the date is shown on both ends.
+const formatWindowRange = (windowStart: string | null, windowEnd: string | null) => {
+  if (!windowStart || !windowEnd) {
+    return null;
   }
 
-  return Math.abs(a.getTime() - b.getTime());
-};
-
-const formatTime12h = (timeValue: string) => {
-  const [hourRaw, minuteRaw = "0"] = timeValue.split(":");
-  const hourNum = Number(hourRaw);
-  const minuteNum = Number(minuteRaw);
-
-  if (Number.isNaN(hourNum) || Number.isNaN(minuteNum)) {
-    return timeValue;
-  }
+  const start = toPittsburghDateTime(new Date(windowStart));
+  const end = toPittsburghDateTime(new Date(windowEnd));
+  const startLabel = `${formatDateShort(start.date)}, ${formatTime12h(start.time)}`;
+  const endLabel = formatTime12h(end.time);
 
-  const period = hourNum >= 12 ? "PM" : "AM";
-  const normalizedHour = hourNum % 12 || 12;
-  const paddedMinute = minuteNum.toString().padStart(2, "0");
-  return `${normalizedHour}:${paddedMinute} ${period}`;
+  return end.date === start.date
+    ? `${startLabel} – ${endLabel}`
+    : `${startLabel} – ${formatDateShort(end.date)}, ${endLabel}`;
 };
 
-const formatDateLong = (dateValue: string) => {
-  const [year, month, day] = dateValue.split("-").map(Number);
-  if (!year || !month || !day) {
-    return dateValue;
-  }
-
-  const date = new Date(Date.UTC(year, month - 1, day));
-  return date.toLocaleDateString("en-US", {
-    month: "long",
-    day: "numeric",
-    year: "numeric",
-    timeZone: "UTC"
-  });
+const describeStretch = (stretch: WindowStretch, who: string) => {
+  return stretch.edge === "end"
+    ? `${who} would stay ${stretch.minutes} min later`
+    : `${who} would start ${stretch.minutes} min earlier`;
 };
 
-const allowsSex = (allowed: string, partnerSex: string) => {
-  if (!allowed || allowed === "Any") {
-    return true;
-  }
-
-  if (allowed === "Male only") {
-    return partnerSex === "Male";
-  }
-
-  if (allowed === "Female only") {
-    return partnerSex === "Female";
-  }
-
-  if (allowed === "Non-binary only") {
-    return partnerSex === "Non-binary";
-  }
-
-  return false;
+const MATCH_ROLE_LABELS: Record<MatchRole, string | null> = {
+  none: null,
+  requester: "Match request sent",
+  recipient: "Match request received",
+  awaiting_partners: "Waiting on partner approval",
+  pool_partner: "Partner approval requested",
+  matched: "Confirmed match!"
 };
 
-const windowsOverlap = (
-  aStart: string | null,
-  aEnd: string | null,
-  bStart: string | null,
-  bEnd: string | null
-) => {
-  if (!aStart || !aEnd || !bStart || !bEnd) {
-    return false;
-  }
-
-  const aStartDate = new Date(aStart);
-  const aEndDate = new Date(aEnd);
-  const bStartDate = new Date(bStart);
-  const bEndDate = new Date(bEnd);
-
-  return aStartDate <= bEndDate && aEndDate >= bStartDate;
+const MATCH_ACTION_LABELS: Record<MatchRole, Partial<Record<MatchAction, string>>> = {
+  none: { request: "Request match" },
+  requester: { withdraw: "Withdraw match" },
+  recipient: { accept: "Accept match", deny: "Deny match" },
+  awaiting_partners: { withdraw: "Withdraw request" },
+  pool_partner: { accept: "Approve", deny: "Deny" },
+  matched: { remove: "Remove match" }
 };
 
 const TRIP_STATUS_OPTIONS = [
@@ -208,12 +235,13 @@ export default function TripsPage() {
   const searchParams = useSearchParams();
   const focusTripId = searchParams.get("tripId");
   const [email, setEmail] = useState("");
+  const [userId, setUserId] = useState("");
   const [profile, setProfile] = useState<ProfileRecord | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [trips, setTrips] = useState<TripRecord[]>([]);
   const [loadingTrips, setLoadingTrips] = useState(false);
-  const [matchesByTrip, setMatchesByTrip] = useState<Record<string, MatchRecord[]>>({});
+  const [matchesByTrip, setMatchesByTrip] = useState<Record<string, TripMatches>>({});
   const [loadingMatches, setLoadingMatches] = useState(false);
   const [expandedMatchId, setExpandedMatchId] = useState<string | null>(null);
   const [updatingTripId, setUpdatingTripId] = useState<string | null>(null);
@@ -224,6 +252,7 @@ export default function TripsPage() {
   } | null>(null);
   const [confirmingPool, setConfirmingPool] = useState<{
     tripId: string;
+    pool: PoolSummary;
     members: MatchRecord[];
   } | null>(null);
   const [removingMatch, setRemovingMatch] = useState<{
@@ -231,6 +260,35 @@ export default function TripsPage() {
     matchId: string;
     matchName: string;
   } | null>(null);
+  const [reportingDelay, setReportingDelay] = useState<{
+    tripId: string;
+    minutes: string;
+  } | null>(null);
+  const [nearMatchGap, setNearMatchGap] = useState(DEFAULT_NEAR_MATCH_GAP_MINUTES);
+  const [extendingMatchId, setExtendingMatchId] = useState<string | null>(null);
+  const [fareSplitMode, setFareSplitMode] = useState<FareSplitMode>("equal");
+  const [recordingFare, setRecordingFare] = useState<{
+    tripId: string;
+    poolId: string;
+    amount: string;
+    splitMode: FareSplitMode;
+    receiptPath: string;
+  } | null>(null);
+  const [uploadingReceipt, setUploadingReceipt] = useState(false);
+  const [chatThreads, setChatThreads] = useState<MessageThreadSummary[]>([]);
+  const [openChat, setOpenChat] = useState<{
+    threadId: string;
+    title: string;
+    trip: TripRecord;
+  } | null>(null);
+  const [emailDrafts, setEmailDrafts] = useState<Record<string, string>>({});
+  const [matchesVersion, setMatchesVersion] = useState(0);
+  const [toasts, setToasts] = useState<{ id: number; message: string }[]>([]);
+  const realtimeConnected = useRef(false);
+  const tripsRef = useRef<TripRecord[]>([]);
+  const matchesByTripRef = useRef<Record<string, TripMatches>>({});
+  tripsRef.current = trips;
+  matchesByTripRef.current = matchesByTrip;
 
   useEffect(() => {
     const loadUser = async () => {
@@ -242,6 +300,7 @@ export default function TripsPage() {
       }
 
       setEmail(data.user.email ?? "");
+      setUserId(data.user.id);
       const { data: profileData } = await supabase
         .from("profiles")
         .select("email,name,sex,major,graduation_year,phone,avatar_path")
@@ -287,135 +346,42 @@ export default function TripsPage() {
 
       setLoadingMatches(true);
 
-      const results = await Promise.all(
-        trips.map(async (trip) => {
-          const { data, error: matchError } = await supabase
-            .from("trips")
-            .select(
-              "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,trip_status,match_email_0,match_email_1,match_email_2,match_email_3,match_email_4,match_email_5,match_status_0,match_status_1,match_status_2,match_status_3,match_status_4,match_status_5,window_start,window_end,willing_to_wait_until_time,created_at"
-            )
-            .eq("direction", trip.direction)
-            .eq("flight_date", trip.flight_date)
-            .neq("user_email", email);
-
-          if (matchError) {
-            return [trip.id, []] as const;
-          }
-
-          const candidates = data ?? [];
-          if (candidates.length === 0) {
-            return [trip.id, []] as const;
-          }
-          const candidateEmails = candidates.map((candidate) => candidate.user_email);
-          const { data: profilesData } = await supabase
-            .from("profiles")
-            .select("email,name,sex,major,graduation_year,phone,avatar_path")
-            .in("email", candidateEmails);
-
-          const profileMap = new Map<string, ProfileRecord>();
-          (profilesData ?? []).forEach((record) => {
-            profileMap.set(record.email, {
-              email: record.email,
-              name: record.name ?? null,
-              sex: record.sex ?? null,
-              major: record.major ?? null,
-              graduation_year: record.graduation_year ?? null,
-              phone: record.phone ?? null,
-              avatar_path: record.avatar_path ?? null
-            });
-          });
-
-          const confirmedEmails = new Set(
-            [0, 1, 2, 3, 4, 5]
-              .map((slot) => {
-                const emailKey = `match_email_${slot}` as keyof TripRecord;
-                const statusKey = `match_status_${slot}` as keyof TripRecord;
-                const emailValue = trip[emailKey];
-                const statusValue = trip[statusKey];
-                return statusValue === "matched" ? (emailValue as string | null) : null;
-              })
-              .filter(Boolean) as string[]
-          );
-
-          const enriched = candidates
-            .map((candidate) => ({
-              ...candidate,
-              profile: profileMap.get(candidate.user_email) ?? null
-            }))
-            .sort((a, b) => {
-              const aDiff = diffMinutes(trip.flight_date, trip.flight_time, a.flight_time);
-              const bDiff = diffMinutes(trip.flight_date, trip.flight_time, b.flight_time);
-              return aDiff - bDiff;
-            });
-
-          const confirmedCandidates = enriched.filter((candidate) =>
-            confirmedEmails.has(candidate.user_email)
-          );
-
-          const potentialCandidates = enriched.filter((candidate) => {
-            if (confirmedEmails.has(candidate.user_email)) {
-              return false;
-            }
-
-            if (candidate.trip_status === "Matched and satisfied") {
-              return false;
-            }
-
-            if (!windowsOverlap(trip.window_start, trip.window_end, candidate.window_start, candidate.window_end)) {
-              return false;
-            }
-
-            const candidateProfile = candidate.profile;
-            if (!candidateProfile?.sex) {
-              return false;
-            }
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
 
-            const currentAllowsCandidate = allowsSex(
-              trip.allowed_partner_sex,
-              candidateProfile.sex
-            );
-            const candidateAllowsCurrent = allowsSex(candidate.allowed_partner_sex, profile.sex ?? "");
+      if (!accessToken) {
+        setError("We couldn't confirm your session. Please log in again.");
+        setLoadingMatches(false);
+        return;
+      }
 
-            return currentAllowsCandidate && candidateAllowsCurrent;
+      const results = await Promise.all(
+        trips.map(async (trip): Promise<[string, TripMatches]> => {
+          const response = await fetch(`/api/trips/${trip.id}/matches?nearGap=${nearMatchGap}`, {
+            headers: { Authorization: `Bearer ${accessToken}` }
           });
 
-          const paired = potentialCandidates.filter((candidate) => {
-            for (let i = 0; i < 6; i += 1) {
-              const emailKey = `match_email_${i}` as keyof MatchRecord;
-              const statusKey = `match_status_${i}` as keyof MatchRecord;
-              const matchedEmail = candidate[emailKey] as string | null;
-              const matchedStatus = candidate[statusKey] as string | null;
-              if (matchedStatus === "matched" && matchedEmail && !potentialCandidates.find((item) => item.user_email === matchedEmail)) {
-                return false;
-              }
-            }
-            return true;
-          });
+          if (!response.ok) {
+            return [trip.id, { pool: null, confirmed: [], groups: [], near: [], expense: null }];
+          }
 
-          const emailsInList = new Set(paired.map((candidate) => candidate.user_email));
-          const finalList = paired.filter((candidate) => {
-            for (let i = 0; i < 6; i += 1) {
-              const emailKey = `match_email_${i}` as keyof MatchRecord;
-              const statusKey = `match_status_${i}` as keyof MatchRecord;
-              const matchedEmail = candidate[emailKey] as string | null;
-              const matchedStatus = candidate[statusKey] as string | null;
-              if (matchedStatus === "matched" && matchedEmail && emailsInList.has(matchedEmail)) {
-                const pairedCandidate = paired.find((item) => item.user_email === matchedEmail);
-                if (!pairedCandidate || !hasConfirmedMatchWith(pairedCandidate, candidate.user_email)) {
-                  return false;
-                }
-              }
+          const data: TripMatches = await response.json();
+          return [
+            trip.id,
+            {
+              pool: data.pool ?? null,
+              confirmed: data.confirmed ?? [],
+              groups: data.groups ?? [],
+              near: data.near ?? [],
+              expense: data.expense ?? null
             }
-            return true;
-          });
-
-          return [trip.id, [...confirmedCandidates, ...finalList]] as const;
+          ];
         })
       );
 
-      const mapped: Record<string, MatchRecord[]> = {};
+      const mapped: Record<string, TripMatches> = {};
       results.forEach(([tripId, matches]) => {
-        mapped[tripId] = [...matches];
+        mapped[tripId] = matches;
       });
 
       setMatchesByTrip(mapped);
@@ -423,78 +389,247 @@ export default function TripsPage() {
     };
 
     fetchMatchesForTrips();
-  }, [email, trips]);
+  }, [email, trips, nearMatchGap, matchesVersion]);
+
+  const tripIdsKey = trips.map((trip) => trip.id).join(",");
+  const poolIdsKey = Array.from(
+    new Set(
+      Object.values(matchesByTrip)
+        .map((tripMatches) => tripMatches.pool?.id)
+        .filter(Boolean)
+    )
+  ).join(",");
+
+  // Patches trips, match requests, pools and pool members as they change
+  // elsewhere, so a request from another rider shows up without a reload.
+  useEffect(() => {
+    if (!email) {
+      return;
+    }
+
+    const showToast = (message: string) => {
+      const id = Date.now() + Math.random();
+      setToasts((current) => [...current, { id, message }]);
+      window.setTimeout(() => {
+        setToasts((current) => current.filter((toast) => toast.id !== id));
+      }, TOAST_DURATION_MS);
+    };
+
+    const getTravelerName = (tripId: string, matchedTripId: string) => {
+      const tripMatches = matchesByTripRef.current[tripId];
+      const candidates = [
+        ...(tripMatches?.confirmed ?? []),
+        ...(tripMatches?.groups ?? []).flatMap((group) => group.members),
+        ...(tripMatches?.near ?? [])
+      ];
+      return (
+        candidates.find((candidate) => candidate.id === matchedTripId)?.profile?.name ||
+        "Another traveler"
+      );
+    };
 
-  const getMatchSlot = (trip: TripRecord, otherEmail: string) => {
-    for (let i = 0; i < 6; i += 1) {
-      const emailKey = `match_email_${i}` as keyof TripRecord;
-      if (trip[emailKey] === otherEmail) {
-        return i;
+    const applyMatchRequest = (
+      tripId: string,
+      matchedTripId: string,
+      relation: TripMatchRequest | null
+    ) => {
+      const status = relation?.status ?? null;
+      const trip = tripsRef.current.find((item) => item.id === tripId);
+      if (!trip) {
+        return;
       }
-    }
-    return -1;
-  };
 
-  const getMatchStatus = (trip: TripRecord, otherEmail: string) => {
-    const slot = getMatchSlot(trip, otherEmail);
-    if (slot === -1) {
-      return null;
+      const previousStatus = getMatchStatus(trip, matchedTripId);
+      const change = describeMatchStatusChange(previousStatus, status);
+      if (change === "requested") {
+        showToast(`${getTravelerName(tripId, matchedTripId)} requested to match with you`);
+      } else if (change === "accepted") {
+        showToast(`${getTravelerName(tripId, matchedTripId)} accepted your request`);
+      } else if (change === "joined") {
+        showToast(`${getTravelerName(tripId, matchedTripId)} joined your ride`);
+      }
+
+      setTrips((current) =>
+        current.map((item) => {
+          if (item.id !== tripId) {
+            return item;
+          }
+          const others = (item.match_requests ?? []).filter(
+            (relation) => relation.matched_trip_id !== matchedTripId
+          );
+          return {
+            ...item,
+            match_requests: relation ? [...others, relation] : others
+          };
+        })
+      );
+    };
+
+    const tripIds = tripIdsKey ? tripIdsKey.split(",") : [];
+    let channel = supabase
+      .channel(`trips-page:${email}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "trips", filter: `user_email=eq.${email}` },
+        () => fetchTrips(email)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "trips", filter: `user_email=eq.${email}` },
+        (payload) => {
+          const updated = payload.new as Partial<TripRecord> & { id: string };
+          setTrips((current) =>
+            current.map((item) =>
+              item.id === updated.id
+                ? { ...item, ...updated, match_requests: item.match_requests }
+                : item
+            )
+          );
+        }
+      )
+      // Delete events can't be filtered server-side.
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "trips" }, (payload) => {
+        const removedId = (payload.old as { id?: string }).id;
+        setTrips((current) => current.filter((item) => item.id !== removedId));
+      })
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "match_requests" },
+        (payload) => {
+          // RLS leaves only the primary key in old rows, so the removed
+          // relationship is found by id among the page's own trips.
+          const removedId = (payload.old as { id?: string }).id;
+          const trip = tripsRef.current.find((item) =>
+            (item.match_requests ?? []).some((relation) => relation.id === removedId)
+          );
+          const removed = trip?.match_requests.find((relation) => relation.id === removedId);
+          if (trip && removed) {
+            applyMatchRequest(trip.id, removed.matched_trip_id, null);
+          }
+        }
+      );
+
+    if (tripIds.length > 0) {
+      channel = channel.on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "match_requests",
+          filter: `trip_id=in.(${tripIdsKey})`
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            return;
+          }
+          const changed = payload.new as TripMatchRequest & { trip_id: string };
+          applyMatchRequest(changed.trip_id, changed.matched_trip_id, {
+            id: changed.id,
+            matched_trip_id: changed.matched_trip_id,
+            status: changed.status
+          });
+        }
+      );
     }
-    const statusKey = `match_status_${slot}` as keyof TripRecord;
-    return trip[statusKey] as string | null;
-  };
 
-  const getMatchStatusFromRecord = (match: MatchRecord, otherEmail: string) => {
-    for (let i = 0; i < 6; i += 1) {
-      const emailKey = `match_email_${i}` as keyof MatchRecord;
-      const statusKey = `match_status_${i}` as keyof MatchRecord;
-      if (match[emailKey] === otherEmail) {
-        return match[statusKey] as string | null;
+    // Membership changes reshape the pool cards, so they reload the matches.
+    const poolIds = poolIdsKey ? poolIdsKey.split(",") : [];
+    const refreshMatches = () => setMatchesVersion((version) => version + 1);
+    channel = channel.on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "pool_members" },
+      (payload) => {
+        const removed = payload.old as { pool_id?: string; trip_id?: string };
+        if (
+          (removed.pool_id && poolIds.includes(removed.pool_id)) ||
+          (removed.trip_id && tripIds.includes(removed.trip_id))
+        ) {
+          refreshMatches();
+        }
       }
+    );
+
+    if (tripIds.length > 0) {
+      channel = channel.on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "pool_members",
+          filter: `trip_id=in.(${tripIdsKey})`
+        },
+        refreshMatches
+      );
     }
-    return null;
-  };
 
-  const hasConfirmedMatchWith = (trip: MatchRecord, otherEmail: string) => {
-    for (let i = 0; i < 6; i += 1) {
-      const emailKey = `match_email_${i}` as keyof MatchRecord;
-      const statusKey = `match_status_${i}` as keyof MatchRecord;
-      if (trip[emailKey] === otherEmail && trip[statusKey] === "matched") {
-        return true;
-      }
+    if (poolIdsKey) {
+      channel = channel
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table: "pools", filter: `id=in.(${poolIdsKey})` },
+          refreshMatches
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "pool_members",
+            filter: `pool_id=in.(${poolIdsKey})`
+          },
+          refreshMatches
+        );
     }
-    return false;
-  };
 
-  const buildMatchGroups = (matches: MatchRecord[]): MatchGroup[] => {
-    const used = new Set<string>();
-    const groups: MatchGroup[] = [];
+    channel.subscribe((status) => {
+      realtimeConnected.current = status === "SUBSCRIBED";
+    });
+
+    return () => {
+      realtimeConnected.current = false;
+      supabase.removeChannel(channel);
+    };
+  }, [email, tripIdsKey, poolIdsKey]);
 
-    matches.forEach((candidate) => {
-      if (used.has(candidate.user_email)) {
+  useEffect(() => {
+    const fetchChatThreads = async () => {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      if (!accessToken) {
         return;
       }
 
-      const partner = matches.find(
-        (other) =>
-          other.user_email !== candidate.user_email &&
-          !used.has(other.user_email) &&
-          hasConfirmedMatchWith(candidate, other.user_email) &&
-          hasConfirmedMatchWith(other, candidate.user_email)
-      );
-
-      if (partner) {
-        used.add(candidate.user_email);
-        used.add(partner.user_email);
-        groups.push({ kind: "pair", members: [candidate, partner] });
+      const response = await fetch("/api/threads", {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      });
+      if (!response.ok) {
         return;
       }
 
-      used.add(candidate.user_email);
-      groups.push({ kind: "single", members: [candidate] });
-    });
+      const data = await response.json();
+      setChatThreads(data?.threads ?? []);
+    };
+
+    if (!email) {
+      return;
+    }
+
+    fetchChatThreads();
+    window.addEventListener(MESSAGES_READ_EVENT, fetchChatThreads);
+    return () => window.removeEventListener(MESSAGES_READ_EVENT, fetchChatThreads);
+  }, [email, trips]);
+
+  const getMatchStatus = (trip: TripRecord, matchedTripId: string) => {
+    const relation = (trip.match_requests ?? []).find(
+      (item) => item.matched_trip_id === matchedTripId
+    );
+    return relation?.status ?? null;
+  };
 
-    return groups;
+  const getConfirmedPartnerIds = (trip: TripRecord) => {
+    return (trip.match_requests ?? [])
+      .filter((item) => item.status === "matched")
+      .map((item) => item.matched_trip_id);
   };
 
   const fetchTrips = async (userEmail: string) => {
@@ -506,7 +641,7 @@ export default function TripsPage() {
     const { data, error: fetchError } = await supabase
       .from("trips")
       .select(
-        "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,trip_status,landed_status,meetup_status,match_email_0,match_email_1,match_email_2,match_email_3,match_email_4,match_email_5,match_status_0,match_status_1,match_status_2,match_status_3,match_status_4,match_status_5,willing_to_wait_until_time,min_hours_before,max_hours_before,window_start,window_end,created_at"
+        "id,user_email,direction,flight_date,flight_time,allowed_partner_sex,trip_status,landed_status,meetup_status,willing_to_wait_until_time,min_hours_before,max_hours_before,window_start,window_end,party_size,checked_bags,carry_on_bags,airline_code,flight_number,other_airport_code,campus_location,flight_status,flight_delay_minutes,flight_gate,follow_flight,window_shift_minutes,created_at,match_requests!trip_id(id,matched_trip_id,status)"
       )
       .eq("user_email", userEmail)
       .order("created_at", { ascending: false });
@@ -521,6 +656,15 @@ export default function TripsPage() {
     setLoadingTrips(false);
   };
 
+  // Realtime patches the page after most actions; refetch only without it.
+  // Removals always refetch, since they can clear more relationships than
+  // the page hears about.
+  const refreshAfterAction = (removed = false) => {
+    if (removed || !realtimeConnected.current) {
+      fetchTrips(email);
+    }
+  };
+
   const handleDeleteTrip = async (tripId: string) => {
     if (!email) {
       return;
@@ -537,7 +681,7 @@ export default function TripsPage() {
       return;
     }
 
-    fetchTrips(email);
+    refreshAfterAction(true);
   };
 
   const updateTripStatus = async (
@@ -575,7 +719,7 @@ export default function TripsPage() {
         return;
       }
 
-      fetchTrips(email);
+      refreshAfterAction();
       return;
     }
 
@@ -592,7 +736,7 @@ export default function TripsPage() {
       return;
     }
 
-    fetchTrips(email);
+    refreshAfterAction();
     setUpdatingTripId(null);
   };
 
@@ -600,6 +744,23 @@ export default function TripsPage() {
     return `Airport ride share – CMU trip on ${tripDate}`;
   };
 
+  // Everyone confirmed on the trip plus the match being written to.
+  const getRouteRiders = (trip: TripRecord, match?: MatchRecord) => {
+    const confirmed = matchesByTrip[trip.id]?.confirmed ?? [];
+    return match && !confirmed.some((rider) => rider.id === match.id)
+      ? [...confirmed, match]
+      : confirmed;
+  };
+
+  const describeRouteStops = (route: PoolRoute, getName: (tripId: string) => string) => {
+    return route.stops.map(
+      (stop, index) =>
+        `${index + 1}. ${stop.location.name} (${stop.tripIds.map(getName).join(", ")})${
+          stop.detourMiles > 0 ? ` · +${stop.detourMiles} mi` : ""
+        }`
+    );
+  };
+
   const buildEmailBody = (match: MatchRecord, trip: TripRecord) => {
     const tripTime = formatTime12h(normalizeTime(trip.flight_time));
     const formattedDate = formatDateLong(trip.flight_date);
@@ -611,8 +772,30 @@ export default function TripsPage() {
       trip.direction === "Arriving to Pittsburgh" ? "from the airport" : "to the airport";
     const matchName = match.profile?.name ?? "there";
     const currentName = profile?.name ?? "A fellow CMU student";
+    const riders = getRouteRiders(trip, match);
+    const route = planPoolRoute(trip.direction, [trip, ...riders]);
+    const routeLines =
+      route.stops.length > 1
+        ? `Suggested stop order (${formatPoolRoute(trip.direction, route)}):\n${describeRouteStops(
+            route,
+            (tripId) =>
+              tripId === trip.id
+                ? currentName
+                : riders.find((rider) => rider.id === tripId)?.profile?.name ?? "CMU student"
+          ).join("\n")}\n\n`
+        : "";
+
+    return `Hi ${matchName},\n\nI saw that we matched on TartanTrips and that we’re both ${directionPhrase}\naround ${tripTime} on ${formattedDate}.\n\nWould you be interested in sharing a ride ${routePhrase}?\nIf so, I’m happy to coordinate details.\n\n${routeLines}Best,\n${currentName}\n`;
+  };
 
-    return `Hi ${matchName},\n\nI saw that we matched on TartanTrips and that we’re both ${directionPhrase}\naround ${tripTime} on ${formattedDate}.\n\nWould you be interested in sharing a ride ${routePhrase}?\nIf so, I’m happy to coordinate details.\n\nBest,\n${currentName}\n`;
+  const buildQuickReplyEmail = (match: MatchRecord, text: string) => {
+    const matchName = match.profile?.name ?? "there";
+    const currentName = profile?.name ?? "A fellow CMU student";
+    return `Hi ${matchName},\n\n${text}\n\nBest,\n${currentName}\n`;
+  };
+
+  const getEmailBody = (match: MatchRecord, trip: TripRecord) => {
+    return emailDrafts[match.id] ?? buildEmailBody(match, trip);
   };
 
   const handleCopy = async (text: string) => {
@@ -661,15 +844,21 @@ export default function TripsPage() {
 
     const { tripId, matchId } = confirmingMatch;
     const trip = trips.find((item) => item.id === tripId);
-    const filledSlots = trip
-      ? [0, 1, 2, 3, 4, 5].filter((slot) => {
-          const key = `match_email_${slot}` as keyof TripRecord;
-          return Boolean(trip[key]);
-        }).length
-      : 0;
-
-    if (filledSlots >= 6) {
-      setError("Rideshare services only allow up to 6 riders. That’s the maximum.");
+    const tripPool = matchesByTrip[tripId]?.pool;
+    const match = matchesByTrip[tripId]?.groups
+      .flatMap((group) => group.members)
+      .find((member) => member.id === matchId);
+    const fitError =
+      trip && match
+        ? tripPool
+          ? getPoolJoinError(tripPool, match)
+          : getSmallestVehicleClass([trip, match])
+            ? null
+            : "These riders and their bags do not fit in any vehicle."
+        : null;
+
+    if (fitError) {
+      setError(fitError);
       setConfirmingMatch(null);
       return;
     }
@@ -679,13 +868,13 @@ export default function TripsPage() {
     }
 
     setConfirmingMatch(null);
-    fetchTrips(email);
+    refreshAfterAction();
   };
 
   const updateMatchRequestStatus = async (
     tripId: string,
     matchedTripId: string,
-    action: "withdraw" | "accept" | "deny" | "remove"
+    action: Exclude<MatchAction, "request">
   ) => {
     const { data: sessionData } = await supabase.auth.getSession();
     const accessToken = sessionData?.session?.access_token;
@@ -711,13 +900,17 @@ export default function TripsPage() {
     if (!response.ok) {
       const data = await response.json();
       setError(data?.error || "Unable to update match status.");
+      // A pool that filled up may have closed the request being approved.
+      if (data?.code === "POOL_FULL") {
+        refreshAfterAction(true);
+      }
       return;
     }
 
-    fetchTrips(email);
+    refreshAfterAction(action !== "accept");
   };
 
-  const leavePool = async (trip: TripRecord, poolMembers: MatchRecord[]) => {
+  const leavePool = async (trip: TripRecord, pool: PoolSummary) => {
     const { data: sessionData } = await supabase.auth.getSession();
     const accessToken = sessionData?.session?.access_token;
 
@@ -726,53 +919,316 @@ export default function TripsPage() {
       return;
     }
 
-    for (const member of poolMembers) {
-      const response = await fetch("/api/match-requests", {
+    const response = await fetch(`/api/pools/${pool.id}/leave`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ tripId: trip.id })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to leave pool.");
+      return;
+    }
+
+    refreshAfterAction(true);
+  };
+
+  const changeVehicleClass = async (
+    trip: TripRecord,
+    pool: PoolSummary,
+    vehicleClass: VehicleClass
+  ) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    const response = await fetch(`/api/pools/${pool.id}/vehicle`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ tripId: trip.id, vehicleClass })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to change the vehicle.");
+      return;
+    }
+
+    refreshAfterAction();
+  };
+
+  const openChatThread = async (
+    trip: TripRecord,
+    target: { matchedTripId: string } | { poolId: string },
+    title: string
+  ) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    const response = await fetch("/api/threads", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ tripId: trip.id, ...target })
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data?.error || "Unable to open the conversation.");
+      return;
+    }
+
+    setOpenChat({ threadId: data.threadId, title, trip });
+  };
+
+  const changePoolBooker = async (
+    trip: TripRecord,
+    pool: PoolSummary,
+    bookerTripId: string | null
+  ) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    const response = await fetch(`/api/pools/${pool.id}/booker`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ tripId: trip.id, bookerTripId })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to update who's booking.");
+      return;
+    }
+
+    refreshAfterAction();
+  };
+
+  const handleReportDelay = async () => {
+    if (!reportingDelay) {
+      return;
+    }
+
+    const delayMinutes = Number(reportingDelay.minutes);
+    if (!Number.isInteger(delayMinutes) || delayMinutes < 0) {
+      setError("Please enter the delay as a whole number of minutes.");
+      return;
+    }
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    const response = await fetch(`/api/trips/${reportingDelay.tripId}/delay`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ delayMinutes })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to report the delay.");
+      return;
+    }
+
+    setReportingDelay(null);
+    refreshAfterAction();
+  };
+
+  const handleExtendWindow = async (trip: TripRecord, match: NearMatchRecord) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    setExtendingMatchId(match.id);
+    const response = await fetch(`/api/trips/${trip.id}/extend-window`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ matchedTripId: match.id })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to extend your window.");
+      setExtendingMatchId(null);
+      return;
+    }
+
+    try {
+      await fetch("/api/match-notifications", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`
-        },
-        body: JSON.stringify({
-          action: "remove",
-          tripId: trip.id,
-          matchedTripId: member.id
-        })
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tripId: trip.id, matchedTripId: match.id })
       });
+    } catch (notifyError) {
+      setError("Extended your window, but failed to trigger notifications.");
+    }
+
+    setExtendingMatchId(null);
+    refreshAfterAction();
+  };
+
+  const uploadReceipt = async (file: File) => {
+    if (!recordingFare || !userId) {
+      return;
+    }
+
+    const allowedTypes = ["image/jpeg", "image/png"];
+    if (!allowedTypes.includes(file.type)) {
+      setError("Please upload a PNG or JPEG image.");
+      return;
+    }
+
+    setUploadingReceipt(true);
+    const extension = file.name.split(".").pop() || "jpg";
+    const filePath = `${userId}/${crypto.randomUUID()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from("receipts")
+      .upload(filePath, file, { upsert: true, contentType: file.type });
+
+    if (uploadError) {
+      setError(uploadError.message);
+      setUploadingReceipt(false);
+      return;
+    }
+
+    setRecordingFare({ ...recordingFare, receiptPath: filePath });
+    setUploadingReceipt(false);
+  };
+
+  const handleRecordFare = async () => {
+    if (!recordingFare) {
+      return;
+    }
+
+    const amount = Number(recordingFare.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError("Please enter the fare you paid.");
+      return;
+    }
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    const response = await fetch(`/api/pools/${recordingFare.poolId}/expense`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({
+        tripId: recordingFare.tripId,
+        amount,
+        splitMode: recordingFare.splitMode,
+        receiptPath: recordingFare.receiptPath || null
+      })
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to record the fare.");
+      return;
+    }
+
+    setRecordingFare(null);
+    fetchTrips(email);
+  };
+
+  const markSharePaid = async (trip: TripRecord, expense: PoolExpense, paid: boolean) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData?.session?.access_token;
+
+    if (!accessToken) {
+      setError("We couldn't confirm your session. Please log in again.");
+      return;
+    }
+
+    const response = await fetch(`/api/pools/${expense.pool_id}/expense/paid`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ tripId: trip.id, paid })
+    });
 
-      if (!response.ok) {
-        const data = await response.json();
-        setError(data?.error || "Unable to remove match.");
-        return;
-      }
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data?.error || "Unable to update your payment.");
+      return;
     }
 
     fetchTrips(email);
   };
 
-  const handleJoinPool = async (trip: TripRecord, poolMembers: MatchRecord[]) => {
+  const handleJoinPool = async (trip: TripRecord, pool: PoolSummary) => {
     if (!email) {
       return;
     }
 
-    const filledSlots = [0, 1, 2, 3, 4, 5].filter((slot) => {
-      const key = `match_email_${slot}` as keyof TripRecord;
-      return Boolean(trip[key]);
-    }).length;
-
-    if (filledSlots + poolMembers.length > 6) {
-      setError("Rideshare services only allow up to 6 riders. That’s the maximum.");
+    const fitError = getPoolJoinError(pool, trip);
+    if (fitError) {
+      setError(fitError);
       return;
     }
 
-    for (const member of poolMembers) {
-      const success = await requestMatch(trip.id, member.id);
-      if (!success) {
-        return;
-      }
+    // The organizer's trip is cleared if it's deleted, so fall back to the
+    // longest-standing member; any member can accept for the pool.
+    const targetTripId = pool.organizer_trip_id ?? pool.member_trip_ids[0];
+    if (!targetTripId) {
+      setError("This pool has no members left to ask.");
+      return;
     }
 
-    fetchTrips(email);
+    const success = await requestMatch(trip.id, targetTripId);
+    if (success) {
+      refreshAfterAction();
+    }
   };
 
   const [futureTrips, pastTrips] = useMemo(() => {
@@ -781,7 +1237,7 @@ export default function TripsPage() {
     const past: TripRecord[] = [];
 
     trips.forEach((trip) => {
-      const tripTime = toDateTimeEST(trip.flight_date, normalizeTime(trip.flight_time));
+      const tripTime = toPittsburghInstant(trip.flight_date, normalizeTime(trip.flight_time));
       if (!Number.isNaN(tripTime.getTime()) && tripTime < now) {
         past.push(trip);
       } else {
@@ -790,8 +1246,8 @@ export default function TripsPage() {
     });
 
     const sortByTime = (a: TripRecord, b: TripRecord) => {
-      const aTime = toDateTimeEST(a.flight_date, normalizeTime(a.flight_time));
-      const bTime = toDateTimeEST(b.flight_date, normalizeTime(b.flight_time));
+      const aTime = toPittsburghInstant(a.flight_date, normalizeTime(a.flight_time));
+      const bTime = toPittsburghInstant(b.flight_date, normalizeTime(b.flight_time));
       return aTime.getTime() - bTime.getTime();
     };
 
@@ -809,34 +1265,54 @@ export default function TripsPage() {
     return (
       <div className="mt-4 space-y-4">
         {tripList.map((trip) => {
-          const tripMatches = (matchesByTrip[trip.id] ?? []).slice().sort((a, b) => {
-            const aDiff = diffMinutes(trip.flight_date, trip.flight_time, a.flight_time);
-            const bDiff = diffMinutes(trip.flight_date, trip.flight_time, b.flight_time);
-            return aDiff - bDiff;
-          });
+          const tripMatches = matchesByTrip[trip.id] ?? {
+            pool: null,
+            confirmed: [],
+            groups: [],
+            near: [],
+            expense: null
+          };
           const tripOwnerName = profile?.name ? `${profile.name}` : "Your trip";
-          const hasConfirmedMatch = [0, 1, 2, 3, 4, 5].some((slot) => {
-            const key = `match_status_${slot}` as keyof TripRecord;
-            return trip[key] === "matched";
-          });
-          const completeCutoffTime = normalizeTime(
-            trip.willing_to_wait_until_time || trip.flight_time
-          );
+          const hasConfirmedMatch = getConfirmedPartnerIds(trip).length > 0;
+          // The wait-until time can fall on the day after the flight, so use the window's end.
+          const completeCutoff =
+            trip.willing_to_wait_until_time && trip.window_end
+              ? new Date(trip.window_end)
+              : toPittsburghInstant(trip.flight_date, normalizeTime(trip.flight_time));
           const tripComplete =
-            !Number.isNaN(toDateTimeEST(trip.flight_date, completeCutoffTime).getTime()) &&
-            toDateTimeEST(trip.flight_date, completeCutoffTime) < new Date();
+            !Number.isNaN(completeCutoff.getTime()) && completeCutoff < new Date();
           const derivedTripStatus = hasConfirmedMatch
             ? trip.trip_status === "Matched and satisfied"
               ? "Matched and satisfied"
               : "Matched and still looking"
             : "Unmatched (looking for matches)";
-          const confirmedMatches = tripMatches.filter(
-            (match) => getMatchStatus(trip, match.user_email) === "matched"
+          const confirmedMatches = tripMatches.confirmed;
+          const matchGroups = tripMatches.groups;
+          const nearMatches = tripMatches.near;
+          const tripPool = tripMatches.pool;
+          const tripExpense = tripMatches.expense;
+          const getConfirmedRiderName = (riderTripId: string) =>
+            riderTripId === trip.id
+              ? "You"
+              : confirmedMatches.find((match) => match.id === riderTripId)?.profile?.name ||
+                "CMU student";
+          const confirmedRoute = planPoolRoute(trip.direction, [trip, ...confirmedMatches]);
+          const fareVehicleClass =
+            tripPool?.vehicle_class ?? getSmallestVehicleClass([trip, ...confirmedMatches]) ?? "van";
+          const fareEstimate = estimateFare(confirmedRoute, fareVehicleClass);
+          const fareShares = splitFare(
+            fareEstimate.total,
+            confirmedRoute,
+            [trip, ...confirmedMatches],
+            fareSplitMode
           );
-          const potentialMatches = tripMatches.filter(
-            (match) => getMatchStatus(trip, match.user_email) !== "matched"
-          );
-          const matchGroups = buildMatchGroups(potentialMatches);
+          const poolOrganizerTrip =
+            [trip, ...confirmedMatches].find((rider) => rider.id === tripPool?.organizer_trip_id) ??
+            trip;
+          const ridePoints = getPoolRidePoints(trip.direction, poolOrganizerTrip.campus_location);
+          const rideHailingLinks = tripPool
+            ? getRideHailingLinks(ridePoints.pickup, ridePoints.dropoff, tripPool.vehicle_class)
+            : [];
 
           const renderMatchCard = (match: MatchRecord, isReadOnly = false) => (
             <div key={match.id} className="rounded-md border border-slate-200 bg-white p-3">
@@ -856,12 +1332,34 @@ export default function TripsPage() {
                     ) : null}
                   </div>
                   <div className="space-y-1">
-                    <p className="text-sm font-semibold text-slate-900">
+                    <p className="flex flex-wrap items-center gap-2 text-sm font-semibold text-slate-900">
                       {match.profile?.name || "CMU student"}
+                      {match.flight_affinity === "same_flight" ? (
+                        <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-800">
+                          Same flight
+                        </span>
+                      ) : match.flight_affinity === "same_route" ? (
+                        <span className="rounded-full bg-sky-100 px-2 py-0.5 text-xs font-medium text-sky-800">
+                          {match.direction === "Arriving to Pittsburgh"
+                            ? `Also from ${match.other_airport_code}`
+                            : `Also to ${match.other_airport_code}`}
+                        </span>
+                      ) : null}
+                      <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">
+                        {match.compatibility.score}% match
+                      </span>
                     </p>
+                    {match.compatibility.reasons.length > 0 ? (
+                      <p className="text-xs text-slate-500">
+                        Why this match: {match.compatibility.reasons.join(" · ")}
+                      </p>
+                    ) : null}
                     <p className="text-xs text-slate-600">
                       {match.direction} · {match.flight_date} at {normalizeTime(match.flight_time)}
                     </p>
+                    {formatFlightSummary(match) ? (
+                      <p className="text-xs text-slate-600">{formatFlightSummary(match)}</p>
+                    ) : null}
                     <p className="text-xs text-slate-600">
                       Sex: {match.profile?.sex || "Not provided"}
                     </p>
@@ -870,7 +1368,9 @@ export default function TripsPage() {
                       {match.profile?.graduation_year || "N/A"}
                     </p>
                     <p className="text-xs text-slate-600">
-                      Phone: {match.profile?.phone || "Not provided"}
+                      Phone:{" "}
+                      {match.profile?.phone ||
+                        (match.match_status ? "Not provided" : "Shared once you request a match")}
                     </p>
                     <p className="text-xs text-slate-600">
                       Willing to wait until:{" "}
@@ -878,156 +1378,146 @@ export default function TripsPage() {
                         ? formatTime12h(normalizeTime(match.willing_to_wait_until_time))
                         : "Not provided"}
                     </p>
+                    {formatWindowRange(match.window_start, match.window_end) ? (
+                      <p className="text-xs text-slate-600">
+                        Window: {formatWindowRange(match.window_start, match.window_end)}
+                      </p>
+                    ) : null}
+                    <p className="text-xs text-slate-600">Bringing: {formatTripLoad(match)}</p>
+                    {formatCampusLocation(match.direction, match.campus_location) ? (
+                      <p className="text-xs text-slate-600">
+                        {formatCampusLocation(match.direction, match.campus_location)}
+                      </p>
+                    ) : null}
+                    {(() => {
+                      const detourMiles = getTripDetourMiles(
+                        planPoolRoute(trip.direction, [trip, match]),
+                        trip.id
+                      );
+                      return detourMiles > 0 ? (
+                        <p className="text-xs text-slate-600">
+                          Riding together adds about {detourMiles} mi to your trip.
+                        </p>
+                      ) : null;
+                    })()}
+                    {match.match_status && !match.windows_overlap ? (
+                      <p className="text-xs font-medium text-amber-700">
+                        Your windows no longer overlap. Check in before heading out.
+                      </p>
+                    ) : null}
+                    {match.match_status === "matched" ? (
+                      <p className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                        {getFlightTrackerLinks(match).map((link) => (
+                          <a
+                            key={link.href}
+                            href={link.href}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="font-medium text-slate-900 underline"
+                          >
+                            {link.label}
+                          </a>
+                        ))}
+                      </p>
+                    ) : null}
                   </div>
                 </div>
                 {isReadOnly ? null : (
                   <div className="flex flex-col gap-2">
-                    <button
-                      type="button"
-                      className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                      onClick={() =>
-                        setExpandedMatchId(expandedMatchId === match.id ? null : match.id)
-                      }
-                    >
-                      Send an email
-                    </button>
+                    {match.user_email ? (
+                      <button
+                        type="button"
+                        className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                        onClick={() =>
+                          setExpandedMatchId(expandedMatchId === match.id ? null : match.id)
+                        }
+                      >
+                        Send an email
+                      </button>
+                    ) : null}
+                    {match.match_status ? (
+                      <button
+                        type="button"
+                        className="inline-flex items-center justify-center gap-1.5 rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                        onClick={() =>
+                          openChatThread(
+                            trip,
+                            { matchedTripId: match.id },
+                            `Chat with ${match.profile?.name || "your match"}`
+                          )
+                        }
+                      >
+                        Message
+                        {findMatchThread(chatThreads, trip.id, match.id)?.unread ? (
+                          <span className="rounded-full bg-red-600 px-1.5 py-0.5 text-xs font-semibold leading-none text-white">
+                            {findMatchThread(chatThreads, trip.id, match.id)?.unread}
+                          </span>
+                        ) : null}
+                      </button>
+                    ) : null}
                     {(() => {
-                      const status = getMatchStatus(trip, match.user_email);
+                      const role = getMatchRole(match.match_status, match.reciprocal_status);
+                      const actionButtonClass =
+                        "inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white";
 
-                      if (!status) {
+                      if (!role) {
                         return (
-                          <button
-                            type="button"
-                            className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                            onClick={() =>
-                              setConfirmingMatch({
-                                tripId: trip.id,
-                                matchId: match.id,
-                                matchName: match.profile?.name || "this match"
-                              })
-                            }
-                          >
-                            Request match
-                          </button>
+                          <span className="rounded-md bg-red-50 px-3 py-1.5 text-xs font-medium text-red-700">
+                            Out of sync · refresh
+                          </span>
                         );
                       }
 
-                      if (status === "request_sent") {
-                        return (
-                          <>
-                            <span className="rounded-md bg-amber-50 px-3 py-1.5 text-xs font-medium text-amber-700">
-                              Match request sent
-                            </span>
-                            <button
-                              type="button"
-                              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                              onClick={() =>
-                                updateMatchRequestStatus(trip.id, match.id, "withdraw")
-                              }
+                      return (
+                        <>
+                          {MATCH_ROLE_LABELS[role] ? (
+                            <span
+                              className={`rounded-md px-3 py-1.5 text-xs font-medium ${
+                                role === "matched"
+                                  ? "bg-slate-100 text-slate-700"
+                                  : "bg-amber-50 text-amber-700"
+                              }`}
                             >
-                              Withdraw match
-                            </button>
-                          </>
-                        );
-                      }
-
-                      if (status === "partner_approval_needed") {
-                        const reciprocalStatus = getMatchStatusFromRecord(match, trip.user_email);
-                        if (reciprocalStatus === "partner_approval_needed") {
-                          return (
-                            <>
-                              <span className="rounded-md bg-amber-50 px-3 py-1.5 text-xs font-medium text-amber-700">
-                                Waiting on partner approval
-                              </span>
-                              <button
-                                type="button"
-                                className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                                onClick={() =>
-                                  updateMatchRequestStatus(trip.id, match.id, "withdraw")
-                                }
-                              >
-                                Withdraw request
-                              </button>
-                            </>
-                          );
-                        }
-
-                        return (
-                          <>
-                            <span className="rounded-md bg-amber-50 px-3 py-1.5 text-xs font-medium text-amber-700">
-                              Partner approval requested
+                              {MATCH_ROLE_LABELS[role]}
                             </span>
+                          ) : null}
+                          {getAllowedActions(role).map((action) => (
                             <button
+                              key={action}
                               type="button"
-                              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                              onClick={() => updateMatchRequestStatus(trip.id, match.id, "accept")}
-                            >
-                              Approve
-                            </button>
-                            <button
-                              type="button"
-                              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                              onClick={() => updateMatchRequestStatus(trip.id, match.id, "deny")}
-                            >
-                              Deny
-                            </button>
-                          </>
-                        );
-                      }
+                              className={actionButtonClass}
+                              onClick={() => {
+                                if (action === "request") {
+                                  setConfirmingMatch({
+                                    tripId: trip.id,
+                                    matchId: match.id,
+                                    matchName: match.profile?.name || "this match"
+                                  });
+                                  return;
+                                }
 
-                      if (status === "request_received") {
-                        return (
-                          <>
-                            <span className="rounded-md bg-amber-50 px-3 py-1.5 text-xs font-medium text-amber-700">
-                              Match request received
-                            </span>
-                            <button
-                              type="button"
-                              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                              onClick={() => updateMatchRequestStatus(trip.id, match.id, "accept")}
-                            >
-                              Accept match
-                            </button>
-                            <button
-                              type="button"
-                              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                              onClick={() => updateMatchRequestStatus(trip.id, match.id, "deny")}
-                            >
-                              Deny match
-                            </button>
-                          </>
-                        );
-                      }
+                                if (action === "remove") {
+                                  setRemovingMatch({
+                                    tripId: trip.id,
+                                    matchId: match.id,
+                                    matchName: match.profile?.name || "this match"
+                                  });
+                                  return;
+                                }
 
-                      if (status === "matched") {
-                        return (
-                          <>
-                            <span className="rounded-md bg-slate-100 px-3 py-1.5 text-xs font-medium text-slate-700">
-                              Confirmed match!
-                            </span>
-                            <button
-                              type="button"
-                              className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                              onClick={() =>
-                                setRemovingMatch({
-                                  tripId: trip.id,
-                                  matchId: match.id,
-                                  matchName: match.profile?.name || "this match"
-                                })
-                              }
+                                updateMatchRequestStatus(trip.id, match.id, action);
+                              }}
                             >
-                              Remove match
+                              {MATCH_ACTION_LABELS[role][action]}
                             </button>
-                          </>
-                        );
-                      }
-
-                      return null;
+                          ))}
+                        </>
+                      );
                     })()}
                   </div>
                 )}
               </div>
-              {!isReadOnly && expandedMatchId === match.id ? (
+              {!isReadOnly && match.user_email && expandedMatchId === match.id ? (
                 <div className="mt-3 rounded-md border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700">
                   <div className="flex flex-col gap-2">
                     <div>
@@ -1049,19 +1539,29 @@ export default function TripsPage() {
                         </button>
                       </div>
                     </div>
+                    <QuickReplyPicker
+                      trip={trip}
+                      actionLabel="Use in email"
+                      onUse={(text) =>
+                        setEmailDrafts({
+                          ...emailDrafts,
+                          [match.id]: buildQuickReplyEmail(match, text)
+                        })
+                      }
+                    />
                     <div>
                       <p className="text-xs font-semibold text-slate-600">Message</p>
                       <textarea
                         readOnly
                         rows={6}
                         className="mt-1 w-full rounded-md border border-slate-300 bg-white p-2 text-xs text-slate-900"
-                        value={buildEmailBody(match, trip)}
+                        value={getEmailBody(match, trip)}
                       />
                       <div className="mt-2 flex flex-col gap-2 sm:flex-row">
                         <button
                           type="button"
                           className="rounded-md border border-slate-300 px-2 py-1 text-xs font-medium text-slate-900 hover:bg-white"
-                          onClick={() => handleCopy(buildEmailBody(match, trip))}
+                          onClick={() => handleCopy(getEmailBody(match, trip))}
                         >
                           Copy message
                         </button>
@@ -1070,13 +1570,33 @@ export default function TripsPage() {
                           href={`https://mail.google.com/mail/?view=cm&fs=1&to=${encodeURIComponent(
                             match.user_email
                           )}&su=${encodeURIComponent(buildEmailSubject(trip.flight_date))}&body=${encodeURIComponent(
-                            buildEmailBody(match, trip)
+                            getEmailBody(match, trip)
                           )}`}
                           target="_blank"
                           rel="noreferrer"
                         >
                           Open in Gmail
                         </a>
+                        <a
+                          className="inline-flex items-center justify-center rounded-md border border-slate-300 px-2 py-1 text-xs font-medium text-slate-900 hover:bg-white"
+                          href={`mailto:${encodeURIComponent(match.user_email)}?subject=${encodeURIComponent(
+                            buildEmailSubject(trip.flight_date)
+                          )}&body=${encodeURIComponent(getEmailBody(match, trip))}`}
+                        >
+                          Open in mail app
+                        </a>
+                        {emailDrafts[match.id] ? (
+                          <button
+                            type="button"
+                            className="rounded-md border border-slate-300 px-2 py-1 text-xs font-medium text-slate-900 hover:bg-white"
+                            onClick={() => {
+                              const { [match.id]: _discarded, ...rest } = emailDrafts;
+                              setEmailDrafts(rest);
+                            }}
+                          >
+                            Back to introduction
+                          </button>
+                        ) : null}
                       </div>
                     </div>
                   </div>
@@ -1099,11 +1619,63 @@ export default function TripsPage() {
                   <p className="text-xs text-slate-600">
                     {trip.flight_date} at {normalizeTime(trip.flight_time)}
                   </p>
+                  {formatFlightSummary(trip) ? (
+                    <p className="text-xs text-slate-600">{formatFlightSummary(trip)}</p>
+                  ) : null}
+                  {trip.flight_status ? (
+                    <p
+                      className={`text-xs ${
+                        trip.flight_status === "cancelled" || trip.flight_delay_minutes > 0
+                          ? "text-amber-700"
+                          : "text-slate-600"
+                      }`}
+                    >
+                      Flight status: {trip.flight_status}
+                      {trip.flight_delay_minutes > 0
+                        ? ` · ${trip.flight_delay_minutes} min late`
+                        : ""}
+                      {trip.flight_gate ? ` · Gate ${trip.flight_gate}` : ""}
+                    </p>
+                  ) : null}
                   <p className="text-xs text-slate-600">
                     Partner filter: {trip.allowed_partner_sex}
                   </p>
+                  {formatWindowRange(trip.window_start, trip.window_end) ? (
+                    <p className="text-xs text-slate-600">
+                      Window: {formatWindowRange(trip.window_start, trip.window_end)}
+                    </p>
+                  ) : null}
+                  <p className="text-xs text-slate-600">Bringing: {formatTripLoad(trip)}</p>
+                  {formatCampusLocation(trip.direction, trip.campus_location) ? (
+                    <p className="text-xs text-slate-600">
+                      {formatCampusLocation(trip.direction, trip.campus_location)}
+                    </p>
+                  ) : null}
+                  {trip.window_shift_minutes > 0 ? (
+                    <p className="text-xs text-amber-700">
+                      Window moved {trip.window_shift_minutes} min later to follow your flight.
+                    </p>
+                  ) : trip.follow_flight ? (
+                    <p className="text-xs text-slate-600">
+                      Following your flight: delays move your window automatically.
+                    </p>
+                  ) : null}
                 </div>
                 <div className="flex gap-2">
+                  {tripComplete ? null : (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                      onClick={() =>
+                        setReportingDelay({
+                          tripId: trip.id,
+                          minutes: String(trip.window_shift_minutes || "")
+                        })
+                      }
+                    >
+                      Report delay
+                    </button>
+                  )}
                   {tripComplete ? null : (
                     <Link
                       className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
@@ -1187,27 +1759,309 @@ export default function TripsPage() {
                   <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                     Confirmed matches
                   </p>
-                  {confirmedMatches.length > 1 ? (
+                  <div className="mt-3 rounded-md border border-slate-200 bg-white p-3">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      Suggested route · {confirmedRoute.totalMiles} mi
+                    </p>
+                    <p className="mt-1 text-xs text-slate-600">
+                      {formatPoolRoute(trip.direction, confirmedRoute)}
+                    </p>
+                    <ol className="mt-2 space-y-1 text-xs text-slate-600">
+                      {describeRouteStops(confirmedRoute, getConfirmedRiderName).map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ol>
+                    <p className="mt-2 text-xs text-slate-500">
+                      Detours are estimated from typical driving distances, not live traffic.
+                    </p>
+                  </div>
+                  <div className="mt-3 rounded-md border border-slate-200 bg-white p-3">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                          Estimated fare · {VEHICLE_LIMITS[fareVehicleClass].label}
+                        </p>
+                        <p className="text-sm font-semibold text-slate-900">
+                          {formatFareAmount(fareEstimate.total)}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          About {fareEstimate.miles} mi and {fareEstimate.minutes} min, including the
+                          airport surcharge.
+                        </p>
+                      </div>
+                      <div className="flex gap-1 rounded-full border border-slate-200 bg-slate-100 p-1">
+                        {FARE_SPLIT_MODES.map((mode) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            className={`rounded-full px-2 py-1 text-[11px] font-semibold ${
+                              fareSplitMode === mode
+                                ? "bg-white text-slate-900 shadow-sm"
+                                : "text-slate-500 hover:text-slate-700"
+                            }`}
+                            onClick={() => setFareSplitMode(mode)}
+                          >
+                            {FARE_SPLIT_MODE_LABELS[mode]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <ul className="mt-2 space-y-1 text-xs text-slate-600">
+                      {[trip, ...confirmedMatches].map((rider) => (
+                        <li key={rider.id}>
+                          {getConfirmedRiderName(rider.id)}
+                          {rider.party_size > 1 ? ` (party of ${rider.party_size})` : ""}:{" "}
+                          {formatFareAmount(fareShares[rider.id] ?? 0)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  {tripPool ? (
+                    <div className="mt-3 rounded-md border border-slate-200 bg-white p-3">
+                      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                        Ride expenses
+                      </p>
+                      {tripExpense ? (
+                        (() => {
+                          const payerIsMe = tripExpense.payer_trip_id === trip.id;
+                          const myShare = tripExpense.shares.find((share) => share.trip_id === trip.id);
+                          const paymentLinks =
+                            myShare && !payerIsMe && !myShare.paid_at
+                              ? getPaymentLinks(
+                                  tripExpense.payer_payment_handles,
+                                  myShare.amount,
+                                  `TartanTrips ride on ${trip.flight_date}`
+                                )
+                              : [];
+
+                          return (
+                            <>
+                              <p className="mt-1 text-sm text-slate-900">
+                                {payerIsMe
+                                  ? "You paid"
+                                  : `${getConfirmedRiderName(tripExpense.payer_trip_id)} paid`}{" "}
+                                {formatFareAmount(tripExpense.amount)} ·{" "}
+                                {FARE_SPLIT_MODE_LABELS[tripExpense.split_mode]}
+                              </p>
+                              {tripExpense.receipt_url ? (
+                                <a
+                                  href={tripExpense.receipt_url}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="text-xs font-medium text-slate-900 underline"
+                                >
+                                  View receipt
+                                </a>
+                              ) : null}
+                              <ul className="mt-2 space-y-1 text-xs text-slate-600">
+                                {tripExpense.shares.map((share) => (
+                                  <li key={share.trip_id}>
+                                    {getConfirmedRiderName(share.trip_id)}:{" "}
+                                    {formatFareAmount(share.amount)} ·{" "}
+                                    {share.trip_id === tripExpense.payer_trip_id
+                                      ? "paid the driver"
+                                      : share.paid_at
+                                        ? "paid back"
+                                        : "owes"}
+                                  </li>
+                                ))}
+                              </ul>
+                              {paymentLinks.length > 0 ? (
+                                <p className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                                  {paymentLinks.map((link) => (
+                                    <a
+                                      key={link.app}
+                                      href={link.href}
+                                      target="_blank"
+                                      rel="noreferrer"
+                                      className="font-medium text-slate-900 underline"
+                                    >
+                                      {link.label}
+                                    </a>
+                                  ))}
+                                </p>
+                              ) : myShare && !payerIsMe && !myShare.paid_at ? (
+                                <p className="mt-2 text-xs text-slate-500">
+                                  They haven&apos;t added a payment app yet. Ask them how they&apos;d like
+                                  to be paid.
+                                </p>
+                              ) : null}
+                              <div className="mt-2 flex flex-wrap gap-2">
+                                {myShare && !payerIsMe ? (
+                                  <button
+                                    type="button"
+                                    className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                                    onClick={() => markSharePaid(trip, tripExpense, !myShare.paid_at)}
+                                  >
+                                    {myShare.paid_at ? "Mark as unpaid" : "Mark as paid"}
+                                  </button>
+                                ) : null}
+                                {payerIsMe ? (
+                                  <button
+                                    type="button"
+                                    className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                                    onClick={() =>
+                                      setRecordingFare({
+                                        tripId: trip.id,
+                                        poolId: tripPool.id,
+                                        amount: String(tripExpense.amount),
+                                        splitMode: tripExpense.split_mode,
+                                        receiptPath: ""
+                                      })
+                                    }
+                                  >
+                                    Edit fare
+                                  </button>
+                                ) : null}
+                              </div>
+                            </>
+                          );
+                        })()
+                      ) : (
+                        <>
+                          <p className="mt-1 text-xs text-slate-500">
+                            After the ride, whoever paid records the fare so everyone knows what they
+                            owe.
+                          </p>
+                          <button
+                            type="button"
+                            className="mt-2 inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                            onClick={() =>
+                              setRecordingFare({
+                                tripId: trip.id,
+                                poolId: tripPool.id,
+                                amount: fareEstimate.total.toFixed(2),
+                                splitMode: fareSplitMode,
+                                receiptPath: ""
+                              })
+                            }
+                          >
+                            I paid for this ride
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  ) : null}
+                  {tripPool ? (
                     <div className="mt-3 rounded-md border border-slate-200 bg-slate-50 p-3">
                       <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                         <div>
                           <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                            Pool
+                            Pool · {VEHICLE_LIMITS[tripPool.vehicle_class].label} ·{" "}
+                            {tripPool.load.party_size} of{" "}
+                            {VEHICLE_LIMITS[tripPool.vehicle_class].seats} seats
+                          </p>
+                          <p className="text-xs text-slate-500">
+                            Bags: {tripPool.load.checked_bags} of{" "}
+                            {VEHICLE_LIMITS[tripPool.vehicle_class].checked_bags} checked ·{" "}
+                            {tripPool.load.carry_on_bags} of{" "}
+                            {VEHICLE_LIMITS[tripPool.vehicle_class].carry_on_bags} carry-on
                           </p>
                           <p className="text-xs text-slate-500">
-                            You&apos;re confirmed with multiple travelers.
+                            {isPoolOrganizer(tripPool, trip.id)
+                              ? "You organized this pool."
+                              : `Organized by ${
+                                  confirmedMatches.find(
+                                    (match) => match.id === tripPool.organizer_trip_id
+                                  )?.profile?.name || "another traveler"
+                                }.`}
                           </p>
                         </div>
-                        {tripComplete ? null : (
+                        <div className="flex flex-col items-start gap-2 sm:items-end">
                           <button
                             type="button"
-                            className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
-                            onClick={() => leavePool(trip, confirmedMatches)}
+                            className="inline-flex items-center justify-center gap-1.5 rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                            onClick={() =>
+                              openChatThread(trip, { poolId: tripPool.id }, "Pool chat")
+                            }
                           >
-                            Leave pool
+                            Pool chat
+                            {findPoolThread(chatThreads, tripPool.id)?.unread ? (
+                              <span className="rounded-full bg-red-600 px-1.5 py-0.5 text-xs font-semibold leading-none text-white">
+                                {findPoolThread(chatThreads, tripPool.id)?.unread}
+                              </span>
+                            ) : null}
                           </button>
-                        )}
+                          {tripComplete ? null : (
+                            <>
+                              {isPoolOrganizer(tripPool, trip.id) ? (
+                                <select
+                                  aria-label="Vehicle"
+                                  value={tripPool.vehicle_class}
+                                  onChange={(event) =>
+                                    changeVehicleClass(
+                                      trip,
+                                      tripPool,
+                                      event.target.value as VehicleClass
+                                    )
+                                  }
+                                  className="rounded-md border border-slate-300 bg-white px-2 py-1.5 text-xs text-slate-900"
+                                >
+                                  {VEHICLE_CLASSES.map((vehicleClass) => (
+                                    <option key={vehicleClass} value={vehicleClass}>
+                                      {VEHICLE_LIMITS[vehicleClass].label} (
+                                      {VEHICLE_LIMITS[vehicleClass].examples})
+                                    </option>
+                                  ))}
+                                </select>
+                              ) : null}
+                              <button
+                                type="button"
+                                className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white"
+                                onClick={() => leavePool(trip, tripPool)}
+                              >
+                                Leave pool
+                              </button>
+                            </>
+                          )}
+                        </div>
                       </div>
+                      {tripComplete ? null : (
+                        <div className="mt-3 flex flex-col gap-2 border-t border-slate-200 pt-3 sm:flex-row sm:items-center sm:justify-between">
+                          <label className="flex items-center gap-2 text-xs text-slate-600">
+                            Who&apos;s booking?
+                            <select
+                              value={tripPool.booker_trip_id ?? ""}
+                              onChange={(event) =>
+                                changePoolBooker(trip, tripPool, event.target.value || null)
+                              }
+                              className="rounded-md border border-slate-300 bg-white px-2 py-1.5 text-xs text-slate-900"
+                            >
+                              <option value="">Not decided</option>
+                              {tripPool.member_trip_ids.map((memberTripId) => (
+                                <option key={memberTripId} value={memberTripId}>
+                                  {getConfirmedRiderName(memberTripId)}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <div className="flex flex-wrap gap-2">
+                            {rideHailingLinks.map((link) => (
+                              <a
+                                key={link.app}
+                                href={link.href}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex items-center justify-center rounded-md border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-slate-100"
+                              >
+                                {link.label}
+                              </a>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {tripComplete ? null : (
+                        <p className="mt-2 text-xs text-slate-500">
+                          {ridePoints.pickup.nickname} → {ridePoints.dropoff.nickname}
+                          {tripPool.booker_trip_id
+                            ? ` · ${
+                                tripPool.booker_trip_id === trip.id
+                                  ? "You're booking"
+                                  : `${getConfirmedRiderName(tripPool.booker_trip_id)} is booking`
+                              }`
+                            : ""}
+                        </p>
+                      )}
                       <div className="mt-3 space-y-2">
                         {confirmedMatches.map((match) => renderMatchCard(match, tripComplete))}
                       </div>
@@ -1234,7 +2088,7 @@ export default function TripsPage() {
                     </p>
                     {loadingMatches ? (
                       <p className="mt-2 text-sm text-slate-600">Loading matches...</p>
-                    ) : potentialMatches.length === 0 ? (
+                    ) : matchGroups.length === 0 ? (
                       <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
                         <p className="text-base font-semibold">Don&apos;t worry!</p>
                         <p className="mt-1 text-sm text-emerald-900">
@@ -1245,16 +2099,17 @@ export default function TripsPage() {
                     ) : (
                       <div className="mt-3 space-y-3">
                         {matchGroups.map((group) => {
-                          if (group.kind === "pair") {
-                            const [first, second] = group.members;
-                            const poolStatuses = [
-                              getMatchStatus(trip, first.user_email),
-                              getMatchStatus(trip, second.user_email)
-                            ];
+                          if (group.pool) {
+                            const groupPool = group.pool;
+                            const poolStatuses = group.members.map((member) =>
+                              getMatchStatus(trip, member.id)
+                            );
                             const poolMatched = poolStatuses.every((status) => status === "matched");
                             const poolHasAnyStatus = poolStatuses.some(Boolean);
-                            const poolCanJoin = poolStatuses.every((status) => !status);
-                            const groupKey = `pool-${first.user_email}-${second.user_email}`;
+                            const poolJoinError = getPoolJoinError(groupPool, trip);
+                            const poolCanJoin =
+                              poolStatuses.every((status) => !status) && !poolJoinError;
+                            const groupKey = `pool-${groupPool.id}`;
 
                             return (
                               <div
@@ -1264,7 +2119,9 @@ export default function TripsPage() {
                                 <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
                                   <div>
                                     <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                                      Matched pool
+                                      Matched pool · {VEHICLE_LIMITS[groupPool.vehicle_class].label}{" "}
+                                      · {groupPool.load.party_size} of{" "}
+                                      {VEHICLE_LIMITS[groupPool.vehicle_class].seats} seats
                                     </p>
                                     <p className="text-xs text-slate-500">
                                       These travelers already confirmed a match together.
@@ -1277,7 +2134,11 @@ export default function TripsPage() {
                                       </span>
                                     ) : poolHasAnyStatus ? (
                                       <span className="text-xs text-slate-500">
-                                        Pool confirmed once both accept.
+                                        Pool confirmed once everyone accepts.
+                                      </span>
+                                    ) : poolJoinError ? (
+                                      <span className="text-xs text-slate-500">
+                                        No room for you: {poolJoinError}
                                       </span>
                                     ) : poolCanJoin ? (
                                   <>
@@ -1287,6 +2148,7 @@ export default function TripsPage() {
                                       onClick={() =>
                                         setConfirmingPool({
                                           tripId: trip.id,
+                                          pool: groupPool,
                                           members: group.members
                                         })
                                       }
@@ -1294,7 +2156,7 @@ export default function TripsPage() {
                                       Join the pool
                                     </button>
                                     <span className="text-xs text-slate-500">
-                                      Pool confirmed once both accept.
+                                      Pool confirmed once everyone accepts.
                                     </span>
                                   </>
                                 ) : null}
@@ -1311,13 +2173,82 @@ export default function TripsPage() {
 
                       const [solo] = group.members;
                       return (
-                        <div key={solo.user_email}>
+                        <div key={solo.id}>
                           {renderMatchCard(solo, tripComplete)}
                         </div>
                       );
                     })}
                       </div>
                     )}
+                    <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                        Near matches
+                      </p>
+                      <select
+                        aria-label="Near match gap"
+                        value={nearMatchGap}
+                        onChange={(event) => setNearMatchGap(Number(event.target.value))}
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
+                      >
+                        {NEAR_MATCH_GAP_OPTIONS.map((minutes) => (
+                          <option key={minutes} value={minutes}>
+                            Within {minutes} min
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="mt-2 text-xs text-slate-500">
+                      These travelers fit everything except timing: your windows miss by a little.
+                    </p>
+                    {loadingMatches ? null : nearMatches.length === 0 ? (
+                      <p className="mt-2 text-sm text-slate-600">
+                        No one misses your window by {nearMatchGap} minutes or less.
+                      </p>
+                    ) : (
+                      <div className="mt-3 space-y-3">
+                        {nearMatches.map((match) => (
+                          <div
+                            key={match.id}
+                            className="rounded-md border border-dashed border-slate-300 bg-slate-50 p-3"
+                          >
+                            <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                              <div>
+                                <p className="text-xs font-semibold text-slate-700">
+                                  Windows miss by {match.stretches.gapMinutes} min
+                                </p>
+                                <p className="text-xs text-slate-600">
+                                  {describeStretch(match.stretches.trip, "You")}
+                                  {match.stretches.trip.error
+                                    ? ` (not possible: ${match.stretches.trip.error})`
+                                    : ""}
+                                </p>
+                                <p className="text-xs text-slate-600">
+                                  Or{" "}
+                                  {describeStretch(
+                                    match.stretches.candidate,
+                                    match.profile?.name || "they"
+                                  )}
+                                  {match.stretches.candidate.error
+                                    ? ` (not possible: ${match.stretches.candidate.error})`
+                                    : ""}
+                                </p>
+                              </div>
+                              <button
+                                type="button"
+                                className="inline-flex items-center justify-center rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-white disabled:cursor-not-allowed disabled:opacity-60"
+                                disabled={Boolean(match.stretches.trip.error) || extendingMatchId === match.id}
+                                onClick={() => handleExtendWindow(trip, match)}
+                              >
+                                {extendingMatchId === match.id
+                                  ? "Extending..."
+                                  : "Extend my window to match"}
+                              </button>
+                            </div>
+                            <div className="mt-3">{renderMatchCard(match, true)}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -1336,26 +2267,13 @@ export default function TripsPage() {
             <h2 className="text-lg font-semibold text-slate-900">Request match</h2>
             {(() => {
               const trip = trips.find((item) => item.id === confirmingMatch.tripId);
-              const confirmedPartnerEmails =
-                trip &&
-                [0, 1, 2, 3, 4, 5]
-                  .map((slot) => {
-                    const emailKey = `match_email_${slot}` as keyof TripRecord;
-                    const statusKey = `match_status_${slot}` as keyof TripRecord;
-                    return trip[statusKey] === "matched" ? (trip[emailKey] as string | null) : null;
-                  })
-                  .filter(Boolean);
-              const confirmedPartnerNames =
-                confirmedPartnerEmails && confirmedPartnerEmails.length > 0
-                  ? confirmedPartnerEmails
-                      .map((emailValue) => {
-                        const found = matchesByTrip[confirmingMatch.tripId]?.find(
-                          (candidate) => candidate.user_email === emailValue
-                        );
-                        return found?.profile?.name || emailValue;
-                      })
-                      .filter(Boolean)
-                  : [];
+              const confirmedPartnerIds = trip ? getConfirmedPartnerIds(trip) : [];
+              const confirmedPartnerNames = confirmedPartnerIds.map((partnerId) => {
+                const found = matchesByTrip[confirmingMatch.tripId]?.confirmed.find(
+                  (candidate) => candidate.id === partnerId
+                );
+                return found?.profile?.name || found?.user_email || "your current match";
+              });
 
               return (
                 <p className="mt-2 text-sm text-slate-600">
@@ -1401,10 +2319,11 @@ export default function TripsPage() {
             <h2 className="text-lg font-semibold text-slate-900">Join pool</h2>
             <p className="mt-2 text-sm text-slate-600">
               A request will be sent to{" "}
-              {confirmingPool.members
-                .map((member) => member.profile?.name || "this traveler")
-                .join(" and ")}
-              . Your spot is only confirmed once they both accept.
+              {confirmingPool.members.find(
+                (member) => member.id === confirmingPool.pool.organizer_trip_id
+              )?.profile?.name || "the pool organizer"}
+              , who organized this pool. Once they accept, the other riders are asked to approve,
+              and your spot is confirmed when everyone has.
             </p>
             <p className="mt-2 text-sm text-slate-600">
               Consider reaching out using the phone numbers or emails on their match cards.
@@ -1426,11 +2345,148 @@ export default function TripsPage() {
                     setConfirmingPool(null);
                     return;
                   }
-                  handleJoinPool(trip, confirmingPool.members);
+                  handleJoinPool(trip, confirmingPool.pool);
                   setConfirmingPool(null);
                 }}
               >
-                Send requests
+                Send request
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {toasts.length > 0 ? (
+        <div className="fixed bottom-4 right-4 z-40 flex flex-col gap-2" role="status">
+          {toasts.map((toast) => (
+            <div
+              key={toast.id}
+              className="rounded-md bg-slate-900 px-4 py-3 text-sm text-white shadow-lg"
+            >
+              {toast.message}
+            </div>
+          ))}
+        </div>
+      ) : null}
+      {openChat ? (
+        <ChatPanel
+          threadId={openChat.threadId}
+          title={openChat.title}
+          quickReplyTrip={openChat.trip}
+          onClose={() => setOpenChat(null)}
+        />
+      ) : null}
+      {reportingDelay ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 px-6">
+          <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-lg">
+            <h2 className="text-lg font-semibold text-slate-900">Report a delay</h2>
+            <p className="mt-2 text-sm text-slate-600">
+              Your window moves later by the total delay. Pool members whose windows stop
+              overlapping yours get an email.
+            </p>
+            <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="delayMinutes">
+              My flight is delayed by (minutes)
+            </label>
+            <input
+              id="delayMinutes"
+              type="number"
+              min="0"
+              step="5"
+              value={reportingDelay.minutes}
+              onChange={(event) =>
+                setReportingDelay({ ...reportingDelay, minutes: event.target.value })
+              }
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+            />
+            <div className="mt-4 flex flex-col gap-2 sm:flex-row">
+              <button
+                type="button"
+                className="w-full rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-900 hover:bg-slate-50"
+                onClick={() => setReportingDelay(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="w-full rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800"
+                onClick={handleReportDelay}
+              >
+                Update window
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {recordingFare ? (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 px-6">
+          <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-lg">
+            <h2 className="text-lg font-semibold text-slate-900">Record the fare</h2>
+            <p className="mt-2 text-sm text-slate-600">
+              Everyone in your pool sees what they owe you, with links to pay you back.
+            </p>
+            <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="fareAmount">
+              Total you paid (including tip)
+            </label>
+            <input
+              id="fareAmount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={recordingFare.amount}
+              onChange={(event) => setRecordingFare({ ...recordingFare, amount: event.target.value })}
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+            />
+            <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="fareSplitMode">
+              Split
+            </label>
+            <select
+              id="fareSplitMode"
+              value={recordingFare.splitMode}
+              onChange={(event) =>
+                setRecordingFare({ ...recordingFare, splitMode: event.target.value as FareSplitMode })
+              }
+              className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-900"
+            >
+              {FARE_SPLIT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {FARE_SPLIT_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+            <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="fareReceipt">
+              Receipt photo (optional)
+            </label>
+            <input
+              id="fareReceipt"
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  uploadReceipt(file);
+                }
+              }}
+              className="mt-1 w-full text-sm text-slate-700"
+            />
+            {uploadingReceipt ? (
+              <p className="mt-1 text-xs text-slate-500">Uploading...</p>
+            ) : recordingFare.receiptPath ? (
+              <p className="mt-1 text-xs text-emerald-700">Receipt attached.</p>
+            ) : null}
+            <div className="mt-4 flex flex-col gap-2 sm:flex-row">
+              <button
+                type="button"
+                className="w-full rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-900 hover:bg-slate-50"
+                onClick={() => setRecordingFare(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="w-full rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                onClick={handleRecordFare}
+                disabled={uploadingReceipt}
+              >
+                Save fare
               </button>
             </div>
           </div>
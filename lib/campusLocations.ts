@@ -0,0 +1,95 @@
+import campusDistanceData from "./data/campusDistances.json";
+import campusLocationData from "./data/campusLocations.json";
+
+export type CampusLocationKind = "campus" | "neighborhood";
+
+export type CampusLocation = {
+  code: string;
+  name: string;
+  kind: CampusLocationKind;
+  lat: number;
+  lng: number;
+};
+
+export type Coordinates = Pick<CampusLocation, "lat" | "lng">;
+
+export const CAMPUS_LOCATIONS = campusLocationData as CampusLocation[];
+
+// Trips without a location predate the field and mean "CMU", so they are
+// routed from the center of campus.
+export const DEFAULT_CAMPUS_LOCATION_CODE = "cmu-cut";
+
+export const PIT_LOCATION_CODE = "PIT";
+export const PIT_COORDINATES: Coordinates = { lat: 40.4915, lng: -80.2329 };
+
+// Driving miles between PIT and the campus locations. Each pair is listed
+// once, under whichever code comes first in the file.
+const CAMPUS_DISTANCES: Record<string, Record<string, number>> = campusDistanceData;
+
+// Straight-line distance understates city driving; this brings it close to
+// typical road distance.
+const ROAD_DISTANCE_FACTOR = 1.3;
+const EARTH_RADIUS_MILES = 3958.8;
+
+const CAMPUS_LOCATION_CODE_PATTERN = /^[a-z0-9-]+$/;
+
+const campusLocationsByCode = new Map(
+  CAMPUS_LOCATIONS.map((location) => [location.code, location])
+);
+
+export const findCampusLocation = (code: string | null | undefined) => {
+  return code ? campusLocationsByCode.get(code) ?? null : null;
+};
+
+export const isCampusLocationCode = (code: string) => {
+  return CAMPUS_LOCATION_CODE_PATTERN.test(code) && campusLocationsByCode.has(code);
+};
+
+// The location a trip is routed to, falling back to campus for trips without one.
+export const getTripCampusLocation = (code: string | null | undefined) => {
+  return (
+    findCampusLocation(code) ??
+    (campusLocationsByCode.get(DEFAULT_CAMPUS_LOCATION_CODE) as CampusLocation)
+  );
+};
+
+export const getCampusLocationLabel = (direction: string) => {
+  return direction === "Arriving to Pittsburgh" ? "Drop-off" : "Pick-up";
+};
+
+export const formatCampusLocation = (direction: string, code: string | null | undefined) => {
+  const location = findCampusLocation(code);
+  return location ? `${getCampusLocationLabel(direction)}: ${location.name}` : null;
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Straight-line estimate of driving miles between two points, rounded to a
+// tenth of a mile. Used when a pair is missing from the distance matrix.
+export const getDistanceMiles = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  const straightLine = 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+  return Math.round(straightLine * ROAD_DISTANCE_FACTOR * 10) / 10;
+};
+
+const getCoordinates = (code: string) => {
+  return code === PIT_LOCATION_CODE ? PIT_COORDINATES : getTripCampusLocation(code);
+};
+
+// Driving miles between two location codes (or PIT_LOCATION_CODE) from the
+// bundled distance matrix.
+export const getDrivingMiles = (fromCode: string, toCode: string) => {
+  if (fromCode === toCode) {
+    return 0;
+  }
+
+  return (
+    CAMPUS_DISTANCES[fromCode]?.[toCode] ??
+    CAMPUS_DISTANCES[toCode]?.[fromCode] ??
+    getDistanceMiles(getCoordinates(fromCode), getCoordinates(toCode))
+  );
+};
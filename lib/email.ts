@@ -0,0 +1,26 @@
+import { Resend } from "resend";
+
+const resendApiKey = process.env.RESEND_API_KEY;
+const resendFrom = process.env.RESEND_FROM || "TartanTrips <onboarding@resend.dev>";
+
+const resend = resendApiKey ? new Resend(resendApiKey) : null;
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export const sendEmail = async ({ to, subject, text }: EmailMessage) => {
+  if (!resend) {
+    return { error: "Missing Resend configuration" };
+  }
+
+  const { error } = await resend.emails.send({ from: resendFrom, to, subject, text });
+
+  if (error) {
+    return { error: error.message || "Failed to send email" };
+  }
+
+  return { error: null };
+};
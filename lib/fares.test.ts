@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { getTripCampusLocation } from "./campusLocations";
+import { splitFare, type SplittableTrip } from "./fares";
+import { planPoolRoute, type PoolRoute } from "./poolRoutes";
+
+// A route with one stop per trip, ridden for the given number of miles.
+const makeRoute = (rideMilesByTrip: Record<string, number>): PoolRoute => ({
+  stops: Object.entries(rideMilesByTrip).map(([tripId, rideMiles]) => ({
+    location: getTripCampusLocation(null),
+    tripIds: [tripId],
+    rideMiles,
+    directMiles: rideMiles,
+    detourMiles: 0
+  })),
+  totalMiles: Math.max(...Object.values(rideMilesByTrip))
+});
+
+const toCents = (shares: Record<string, number>) =>
+  Math.round(Object.values(shares).reduce((sum, share) => sum + share, 0) * 100);
+
+describe("splitFare", () => {
+  const route = makeRoute({ a: 1, b: 2, c: 4 });
+  const trips: SplittableTrip[] = [{ id: "a" }, { id: "b" }, { id: "c" }];
+
+  it("splits equally and gives the leftover cent to the first largest share", () => {
+    expect(splitFare(100, route, trips, "equal")).toEqual({ a: 33.34, b: 33.33, c: 33.33 });
+  });
+
+  it("counts every traveler in a party for an equal split", () => {
+    expect(splitFare(10, route, [{ id: "a", party_size: 2 }, { id: "b" }], "equal")).toEqual({
+      a: 6.67,
+      b: 3.33
+    });
+  });
+
+  it("weights a distance split by miles ridden", () => {
+    expect(splitFare(10, route, trips, "distance")).toEqual({ a: 1.42, b: 2.86, c: 5.72 });
+    expect(splitFare(45, makeRoute({ a: 10, b: 20 }), trips.slice(0, 2), "distance")).toEqual({
+      a: 15,
+      b: 30
+    });
+  });
+
+  it("weights a distance split by travelers times miles", () => {
+    const partyTrips = [{ id: "a", party_size: 2 }, { id: "b" }];
+
+    expect(splitFare(45, makeRoute({ a: 10, b: 20 }), partyTrips, "distance")).toEqual({
+      a: 22.5,
+      b: 22.5
+    });
+  });
+
+  it("charges nothing to trips off the route in a distance split", () => {
+    expect(splitFare(30, makeRoute({ a: 5 }), [{ id: "a" }, { id: "z" }], "distance")).toEqual({
+      a: 30,
+      z: 0
+    });
+    expect(splitFare(30, makeRoute({}), [{ id: "z" }], "distance")).toEqual({ z: 0 });
+  });
+
+  it("splits a planned route by how far each rider goes", () => {
+    const planned = planPoolRoute("Arriving to Pittsburgh", [
+      { id: "cut", campus_location: "cmu-cut" },
+      { id: "mill", campus_location: "cmu-mill-19" },
+      { id: "friendship", campus_location: "friendship" }
+    ]);
+
+    expect(
+      splitFare(60, planned, [{ id: "cut" }, { id: "mill" }, { id: "friendship" }], "distance")
+    ).toEqual({ cut: 19.57, mill: 22.73, friendship: 17.7 });
+  });
+
+  it.each([
+    [0.01, [1, 1, 1]],
+    [47.83, [1, 2, 1]],
+    [61.07, [3, 1, 1]],
+    [99.99, [1, 1, 2]],
+    [123.45, [5, 1, 1]]
+  ])("always adds up to the fare (%s for parties %j)", (total, partySizes) => {
+    const partyTrips = trips.map((trip, index) => ({ ...trip, party_size: partySizes[index] }));
+
+    for (const mode of ["equal", "distance"] as const) {
+      const shares = splitFare(total, route, partyTrips, mode);
+
+      expect(toCents(shares)).toBe(Math.round(total * 100));
+      Object.values(shares).forEach((share) => {
+        expect(Number(share.toFixed(2))).toBe(share);
+      });
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import fareRateData from "./data/fareRates.json";
+import type { PoolRoute } from "./poolRoutes";
+import { toTripLoad, type TripLoad, type VehicleClass } from "./pools";
+
+export type VehicleFareRates = {
+  base_fare: number;
+  booking_fee: number;
+  per_mile: number;
+  per_minute: number;
+  minimum_fare: number;
+};
+
+// Edit lib/data/fareRates.json to change the rates; amounts are in `currency`.
+export type FareRateTable = {
+  currency: string;
+  airport_surcharge: number;
+  average_speed_mph: number;
+  vehicle_classes: Record<VehicleClass, VehicleFareRates>;
+};
+
+export const FARE_RATES: FareRateTable = fareRateData;
+
+export const FARE_SPLIT_MODES = ["equal", "distance"] as const;
+
+export type FareSplitMode = (typeof FARE_SPLIT_MODES)[number];
+
+export const FARE_SPLIT_MODE_LABELS: Record<FareSplitMode, string> = {
+  equal: "Equal split",
+  distance: "By distance"
+};
+
+export type FareEstimate = {
+  vehicleClass: VehicleClass;
+  miles: number;
+  minutes: number;
+  total: number;
+};
+
+export type SplittableTrip = Partial<TripLoad> & { id: string };
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const estimateFare = (
+  route: PoolRoute,
+  vehicleClass: VehicleClass,
+  rates: FareRateTable = FARE_RATES
+): FareEstimate => {
+  const classRates = rates.vehicle_classes[vehicleClass];
+  const minutes = Math.round((route.totalMiles / rates.average_speed_mph) * 60);
+  const metered =
+    classRates.base_fare +
+    classRates.per_mile * route.totalMiles +
+    classRates.per_minute * minutes;
+  const total =
+    Math.max(metered, classRates.minimum_fare) + classRates.booking_fee + rates.airport_surcharge;
+
+  return { vehicleClass, miles: route.totalMiles, minutes, total: toCents(total) / 100 };
+};
+
+// Shares per trip that add up to the total exactly. Equal splits charge each
+// traveler the same; distance splits weight travelers by how far they ride.
+export const splitFare = (
+  total: number,
+  route: PoolRoute,
+  trips: SplittableTrip[],
+  mode: FareSplitMode
+): Record<string, number> => {
+  const rideMilesByTrip = new Map(
+    route.stops.flatMap((stop) => stop.tripIds.map((tripId) => [tripId, stop.rideMiles] as const))
+  );
+  const weights = trips.map((trip) => {
+    const travelers = toTripLoad(trip).party_size;
+    return mode === "distance" ? travelers * (rideMilesByTrip.get(trip.id) ?? 0) : travelers;
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const totalCents = toCents(total);
+
+  const cents = weights.map((weight) =>
+    totalWeight > 0 ? Math.floor((totalCents * weight) / totalWeight) : 0
+  );
+  // Leftover cents from rounding down go to the largest shares first.
+  const leftover = totalWeight > 0 ? totalCents - cents.reduce((sum, share) => sum + share, 0) : 0;
+  weights
+    .map((weight, index) => ({ weight, index }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, leftover)
+    .forEach(({ index }) => {
+      cents[index] += 1;
+    });
+
+  return Object.fromEntries(trips.map((trip, index) => [trip.id, cents[index] / 100]));
+};
+
+export const formatFareAmount = (amount: number, currency: string = FARE_RATES.currency) => {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { getFlightDelayMinutes, getPitFlightTimes, isFinalFlightStatus } from "./flightStatus";
+import { createMockFlightStatusProvider } from "./flightStatusProviders";
+import { shiftTripWindow } from "./tripDelays";
+
+const ARRIVING = "Arriving to Pittsburgh";
+const DEPARTING = "Departing from Pittsburgh";
+
+// Reads the bundled lib/data/mockFlightStatuses.json.
+const provider = createMockFlightStatusProvider();
+
+const lookup = (airlineCode: string, flightNumber: string, flightDate = "2026-10-20") =>
+  provider.getFlightStatus({ airlineCode, flightNumber, flightDate });
+
+describe("mock flight status provider", () => {
+  it("reports an on-time flight with no delay", async () => {
+    const status = await lookup("UA", "2451");
+
+    expect(status?.status).toBe("scheduled");
+    expect(getFlightDelayMinutes(status!, ARRIVING)).toBe(0);
+    expect(getFlightDelayMinutes(status!, DEPARTING)).toBe(0);
+    expect(getPitFlightTimes(status!, ARRIVING)).toEqual({
+      scheduled: "2026-10-20T22:35:00.000Z",
+      expected: "2026-10-20T22:35:00.000Z",
+      gate: null
+    });
+  });
+
+  it("measures a delay on the side of the flight at PIT", async () => {
+    const status = await lookup("AA", "1922");
+
+    expect(status?.status).toBe("delayed");
+    expect(getPitFlightTimes(status!, ARRIVING)).toEqual({
+      scheduled: "2026-10-20T19:40:00.000Z",
+      expected: "2026-10-20T20:25:00.000Z",
+      gate: "B24"
+    });
+    expect(getPitFlightTimes(status!, DEPARTING).gate).toBe("H12");
+    expect(getFlightDelayMinutes(status!, ARRIVING)).toBe(45);
+    expect(getFlightDelayMinutes(status!, DEPARTING)).toBe(45);
+  });
+
+  it("prefers actual times once the flight has flown", async () => {
+    const status = await lookup("WN", "318");
+
+    expect(isFinalFlightStatus(status?.status)).toBe(true);
+    expect(getFlightDelayMinutes(status!, ARRIVING)).toBe(6);
+    expect(getFlightDelayMinutes(status!, DEPARTING)).toBe(12);
+  });
+
+  it("returns null for an unknown flight or date", async () => {
+    expect(await lookup("B6", "1")).toBeNull();
+    expect(await lookup("AA", "1922", "2026-10-21")).toBeNull();
+  });
+});
+
+describe("getFlightDelayMinutes", () => {
+  it("never reports an early flight as a negative delay", async () => {
+    const status = await lookup("UA", "2451");
+
+    expect(
+      getFlightDelayMinutes(
+        { ...status!, estimated_arrival: "2026-10-20T22:05:00.000Z" },
+        ARRIVING
+      )
+    ).toBe(0);
+  });
+
+  it("is 0 without a scheduled time", async () => {
+    const status = await lookup("AA", "1922");
+
+    expect(getFlightDelayMinutes({ ...status!, scheduled_arrival: null }, ARRIVING)).toBe(0);
+  });
+});
+
+describe("delay to window shift", () => {
+  const trip = {
+    window_start: "2026-10-20T19:30:00.000Z",
+    window_end: "2026-10-20T21:00:00.000Z",
+    window_shift_minutes: 0
+  };
+
+  it("shifts a following trip's window by a reported delay", async () => {
+    const status = await lookup("AA", "1922");
+
+    expect(shiftTripWindow(trip, getFlightDelayMinutes(status!, ARRIVING))).toEqual({
+      window_start: "2026-10-20T20:15:00.000Z",
+      window_end: "2026-10-20T21:45:00.000Z",
+      window_shift_minutes: 45
+    });
+  });
+
+  it("leaves the window alone for an on-time flight", async () => {
+    const status = await lookup("UA", "2451");
+
+    expect(shiftTripWindow(trip, getFlightDelayMinutes(status!, ARRIVING))).toBeNull();
+  });
+});
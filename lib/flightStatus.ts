@@ -0,0 +1,72 @@
+export const FLIGHT_STATUS_STATES = [
+  "scheduled",
+  "delayed",
+  "departed",
+  "landed",
+  "cancelled"
+] as const;
+
+export type FlightStatusState = (typeof FLIGHT_STATUS_STATES)[number];
+
+export type FlightStatusQuery = {
+  airlineCode: string;
+  flightNumber: string;
+  flightDate: string;
+};
+
+// Times are ISO instants; gates and times are null when the provider doesn't know them yet.
+export type FlightStatus = {
+  airline_code: string;
+  flight_number: string;
+  flight_date: string;
+  status: FlightStatusState;
+  scheduled_departure: string | null;
+  estimated_departure: string | null;
+  actual_departure: string | null;
+  departure_gate: string | null;
+  scheduled_arrival: string | null;
+  estimated_arrival: string | null;
+  actual_arrival: string | null;
+  arrival_gate: string | null;
+};
+
+// Implementations are registered in lib/flightStatusProviders.ts and picked
+// with FLIGHT_STATUS_PROVIDER.
+export type FlightStatusProvider = {
+  name: string;
+  getFlightStatus: (query: FlightStatusQuery) => Promise<FlightStatus | null>;
+};
+
+const ARRIVING_DIRECTION = "Arriving to Pittsburgh";
+
+// The side of the flight that happens at PIT: arrival for riders flying in,
+// departure for riders flying out.
+export const getPitFlightTimes = (status: FlightStatus, direction: string) => {
+  if (direction === ARRIVING_DIRECTION) {
+    return {
+      scheduled: status.scheduled_arrival,
+      expected: status.actual_arrival ?? status.estimated_arrival ?? status.scheduled_arrival,
+      gate: status.arrival_gate
+    };
+  }
+
+  return {
+    scheduled: status.scheduled_departure,
+    expected: status.actual_departure ?? status.estimated_departure ?? status.scheduled_departure,
+    gate: status.departure_gate
+  };
+};
+
+export const getFlightDelayMinutes = (status: FlightStatus, direction: string) => {
+  const { scheduled, expected } = getPitFlightTimes(status, direction);
+  if (!scheduled || !expected) {
+    return 0;
+  }
+
+  const delay = Math.round((new Date(expected).getTime() - new Date(scheduled).getTime()) / 60000);
+  return Number.isFinite(delay) ? Math.max(delay, 0) : 0;
+};
+
+export const isFinalFlightStatus = (status: string | null | undefined) => {
+  return status === "landed" || status === "cancelled";
+};
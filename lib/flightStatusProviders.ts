@@ -0,0 +1,40 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { FlightStatus, FlightStatusProvider } from "./flightStatus";
+
+const DEFAULT_MOCK_FILE = path.join(process.cwd(), "lib", "data", "mockFlightStatuses.json");
+
+// Reads flight statuses from a JSON array of FlightStatus records on every
+// lookup, so the file can be edited while the app is running.
+export const createMockFlightStatusProvider = (
+  filePath: string = DEFAULT_MOCK_FILE
+): FlightStatusProvider => ({
+  name: "mock",
+  getFlightStatus: async ({ airlineCode, flightNumber, flightDate }) => {
+    const records: FlightStatus[] = JSON.parse(await readFile(filePath, "utf8"));
+
+    return (
+      records.find(
+        (record) =>
+          record.airline_code === airlineCode &&
+          record.flight_number === flightNumber &&
+          record.flight_date === flightDate
+      ) ?? null
+    );
+  }
+});
+
+const providerFactories: Record<string, () => FlightStatusProvider> = {
+  mock: () => createMockFlightStatusProvider(process.env.FLIGHT_STATUS_MOCK_FILE || undefined)
+};
+
+export const getFlightStatusProvider = (
+  name: string = process.env.FLIGHT_STATUS_PROVIDER || "mock"
+) => {
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown flight status provider: ${name}`);
+  }
+
+  return factory();
+};
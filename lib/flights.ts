@@ -0,0 +1,180 @@
+import airlineData from "./data/airlines.json";
+import airportData from "./data/airports.json";
+
+export type Airline = {
+  code: string;
+  name: string;
+  // Slug of the airline's page under PIT_AIRLINES_URL, for carriers serving PIT.
+  pit_slug?: string;
+  // Carrier flight-status page with {flightNumber} and {date} (YYYY-MM-DD) placeholders.
+  status_url?: string;
+};
+
+export type Airport = {
+  code: string;
+  name: string;
+  city: string;
+};
+
+export type FlightDetails = {
+  airline_code: string | null;
+  flight_number: string | null;
+  other_airport_code: string | null;
+};
+
+export type FlightTrackerLink = {
+  label: string;
+  href: string;
+};
+
+export const PITTSBURGH_AIRPORT_CODE = "PIT";
+export const PIT_AIRLINES_URL =
+  "https://flypittsburgh.com/pittsburgh-international-airport/flights/airlines/";
+const FALLBACK_STATUS_URL = "https://www.flightaware.com/live/flight/{airlineCode}{flightNumber}";
+
+export const AIRLINES: Airline[] = airlineData;
+export const AIRPORTS: Airport[] = airportData;
+
+const AIRLINE_CODE_PATTERN = /^[A-Z0-9]{2}$/;
+const AIRPORT_CODE_PATTERN = /^[A-Z]{3}$/;
+
+const airlinesByCode = new Map(AIRLINES.map((airline) => [airline.code, airline]));
+const airportsByCode = new Map(AIRPORTS.map((airport) => [airport.code, airport]));
+
+export const findAirline = (code: string | null | undefined) => {
+  return code ? airlinesByCode.get(code.toUpperCase()) ?? null : null;
+};
+
+export const findAirport = (code: string | null | undefined) => {
+  return code ? airportsByCode.get(code.toUpperCase()) ?? null : null;
+};
+
+const normalizeCode = (value: string | null | undefined) => {
+  const trimmed = (value ?? "").trim().toUpperCase();
+  return trimmed || null;
+};
+
+// Accepts "1234", "AA1234" or "AA 1234" and returns the airline-prefix-free
+// number, plus the prefix when one was typed.
+export const parseFlightNumber = (value: string | null | undefined) => {
+  const compact = (value ?? "").replace(/\s+/g, "").toUpperCase();
+  const match = compact.match(/^([A-Z]{2}|[A-Z]\d|\d[A-Z])?(\d{1,4})$/);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    airlineCode: match[1] ?? null,
+    flightNumber: String(Number(match[2]))
+  };
+};
+
+export const validateFlightDetails = (input: {
+  airlineCode: string;
+  flightNumber: string;
+  otherAirportCode: string;
+}): { details: FlightDetails; error?: undefined } | { details?: undefined; error: string } => {
+  let airlineCode = normalizeCode(input.airlineCode);
+  let flightNumber: string | null = null;
+  const otherAirportCode = normalizeCode(input.otherAirportCode);
+
+  if (input.flightNumber.trim()) {
+    const parsed = parseFlightNumber(input.flightNumber);
+    if (!parsed) {
+      return { error: "Flight numbers are up to 4 digits, optionally after the airline code." };
+    }
+
+    if (parsed.airlineCode && airlineCode && parsed.airlineCode !== airlineCode) {
+      return { error: "The flight number's airline code doesn't match the selected airline." };
+    }
+
+    airlineCode = airlineCode ?? parsed.airlineCode;
+    flightNumber = parsed.flightNumber;
+  }
+
+  if (airlineCode && (!AIRLINE_CODE_PATTERN.test(airlineCode) || !findAirline(airlineCode))) {
+    return { error: "Please choose an airline from the list." };
+  }
+
+  if (flightNumber && !airlineCode) {
+    return { error: "Please choose the airline for this flight number." };
+  }
+
+  if (otherAirportCode) {
+    if (!AIRPORT_CODE_PATTERN.test(otherAirportCode) || !findAirport(otherAirportCode)) {
+      return { error: "Please enter a 3-letter airport code from the list." };
+    }
+
+    if (otherAirportCode === PITTSBURGH_AIRPORT_CODE) {
+      return { error: "The other airport can't be Pittsburgh." };
+    }
+  }
+
+  return {
+    details: {
+      airline_code: airlineCode,
+      flight_number: flightNumber,
+      other_airport_code: otherAirportCode
+    }
+  };
+};
+
+export const formatFlight = (details: Partial<FlightDetails>) => {
+  const airline = findAirline(details.airline_code);
+  if (!airline) {
+    return null;
+  }
+
+  return details.flight_number
+    ? `${airline.name} ${airline.code} ${details.flight_number}`
+    : airline.name;
+};
+
+export const formatOtherAirport = (direction: string, code: string | null | undefined) => {
+  if (!code) {
+    return null;
+  }
+
+  const airport = findAirport(code);
+  const label = airport ? `${airport.city} (${airport.code})` : code;
+  return direction === "Arriving to Pittsburgh" ? `From ${label}` : `To ${label}`;
+};
+
+export const formatFlightSummary = (trip: Partial<FlightDetails> & { direction: string }) => {
+  const parts = [formatFlight(trip), formatOtherAirport(trip.direction, trip.other_airport_code)];
+  return parts.filter(Boolean).join(" · ") || null;
+};
+
+const fillTemplate = (template: string, values: Record<string, string>) => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? encodeURIComponent(values[key]) : placeholder
+  );
+};
+
+// Links for following a rider's flight: the airline's PIT page (or the PIT
+// airline list when the carrier is unknown) plus a flight-status page when
+// the flight number is known.
+export const getFlightTrackerLinks = (
+  trip: Partial<FlightDetails> & { flight_date: string }
+): FlightTrackerLink[] => {
+  const airline = findAirline(trip.airline_code);
+  const links: FlightTrackerLink[] = [
+    airline?.pit_slug
+      ? { label: `${airline.name} at PIT`, href: `${PIT_AIRLINES_URL}${airline.pit_slug}/` }
+      : { label: "PIT airlines", href: PIT_AIRLINES_URL }
+  ];
+
+  if (trip.airline_code && trip.flight_number) {
+    const values = {
+      airlineCode: trip.airline_code,
+      flightNumber: trip.flight_number,
+      date: trip.flight_date
+    };
+    links.push({
+      label: `Track ${trip.airline_code} ${trip.flight_number}`,
+      href: fillTemplate(airline?.status_url ?? FALLBACK_STATUS_URL, values)
+    });
+  }
+
+  return links;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { getMatchEvent, getPoolLeaveEvents } from "./matchEvents";
+
+describe("getMatchEvent", () => {
+  it("maps each action to the event the other rider hears about", () => {
+    expect(getMatchEvent("accept", "trip-a", "trip-b")).toEqual({
+      type: "request_accepted",
+      actorTripId: "trip-a",
+      recipientTripId: "trip-b"
+    });
+    expect(getMatchEvent("remove", "trip-a", "trip-b").type).toBe("match_removed");
+  });
+});
+
+describe("getPoolLeaveEvents", () => {
+  it("tells every remaining member when a rider leaves", () => {
+    expect(getPoolLeaveEvents("trip-a", "trip-a", ["trip-a", "trip-b", "trip-c"])).toEqual([
+      { type: "match_removed", actorTripId: "trip-a", recipientTripId: "trip-b" },
+      { type: "match_removed", actorTripId: "trip-a", recipientTripId: "trip-c" }
+    ]);
+  });
+
+  it("tells a removed rider who removed them", () => {
+    expect(getPoolLeaveEvents("trip-a", "trip-b", ["trip-a", "trip-b", "trip-c"])).toEqual([
+      { type: "match_removed", actorTripId: "trip-b", recipientTripId: "trip-a" },
+      { type: "match_removed", actorTripId: "trip-a", recipientTripId: "trip-c" }
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail } from "./email";
+import type { MatchAction } from "./matchStateMachine";
+import { formatDateLong } from "./time";
+
+// Mirrored by the check constraint on public.match_event_notifications.
+export const MATCH_EVENT_TYPES = [
+  "request_received",
+  "request_accepted",
+  "request_denied",
+  "request_withdrawn",
+  "match_removed",
+  "approval_needed"
+] as const;
+
+export type MatchEventType = (typeof MATCH_EVENT_TYPES)[number];
+
+// Something a rider did to a match that another rider should hear about.
+export type MatchEvent = {
+  type: MatchEventType;
+  actorTripId: string;
+  recipientTripId: string;
+};
+
+const MATCH_ACTION_EVENTS: Record<MatchAction, MatchEventType> = {
+  request: "request_received",
+  accept: "request_accepted",
+  deny: "request_denied",
+  withdraw: "request_withdrawn",
+  remove: "match_removed"
+};
+
+type EventTrip = {
+  id: string;
+  user_email: string;
+  direction: string;
+  flight_date: string;
+};
+
+export const getMatchEvent = (
+  action: MatchAction,
+  actorTripId: string,
+  otherTripId: string
+): MatchEvent => ({
+  type: MATCH_ACTION_EVENTS[action],
+  actorTripId,
+  recipientTripId: otherTripId
+});
+
+// Leaving a pool ends the leaver's match with every other member. The leaver
+// hears from whoever removed them; everyone else hears from the leaver.
+export const getPoolLeaveEvents = (
+  leaverTripId: string,
+  actorTripId: string,
+  memberTripIds: string[]
+): MatchEvent[] => {
+  return memberTripIds
+    .filter((memberId) => memberId !== actorTripId)
+    .map((memberId) => ({
+      type: "match_removed",
+      actorTripId: memberId === leaverTripId ? actorTripId : leaverTripId,
+      recipientTripId: memberId
+    }));
+};
+
+const describeMatchEvent = (type: MatchEventType, actorName: string, tripLabel: string) => {
+  switch (type) {
+    case "request_received":
+      return {
+        subject: "🤝 New TartanTrips match request",
+        line: `${actorName} wants to share a ride for your ${tripLabel}. Log in to accept or decline.`
+      };
+    case "request_accepted":
+      return {
+        subject: "✅ Your TartanTrips request was accepted",
+        line: `${actorName} accepted your request to share a ride for your ${tripLabel}. Log in to message them and plan the pickup.`
+      };
+    case "request_denied":
+      return {
+        subject: "TartanTrips match request declined",
+        line: `${actorName} can't share a ride for your ${tripLabel}. Your trip is still listed, so log in to see other matches.`
+      };
+    case "request_withdrawn":
+      return {
+        subject: "TartanTrips match request withdrawn",
+        line: `${actorName} withdrew their request to share a ride for your ${tripLabel}.`
+      };
+    case "match_removed":
+      return {
+        subject: "TartanTrips ride share removed",
+        line: `${actorName} is no longer sharing a ride with you for your ${tripLabel}. Log in to find another match.`
+      };
+    case "approval_needed":
+      return {
+        subject: "🙋 A rider wants to join your TartanTrips ride",
+        line: `${actorName} wants to join the ride you're sharing for your ${tripLabel}. Log in to approve or decline.`
+      };
+  }
+};
+
+const notificationExists = async (supabaseAdmin: SupabaseClient, event: MatchEvent) => {
+  const { data, error } = await supabaseAdmin
+    .from("match_event_notifications")
+    .select("trip_id")
+    .eq("trip_id", event.recipientTripId)
+    .eq("matched_trip_id", event.actorTripId)
+    .eq("event_type", event.type)
+    .limit(1);
+
+  if (error) {
+    return { error: error.message, exists: false };
+  }
+
+  return { error: null, exists: (data ?? []).length > 0 };
+};
+
+const sendMatchEvent = async (supabaseAdmin: SupabaseClient, event: MatchEvent) => {
+  const { error: existsError, exists } = await notificationExists(supabaseAdmin, event);
+  if (existsError || exists) {
+    return { error: existsError, notified: false };
+  }
+
+  const { data: tripRows, error: tripsError } = await supabaseAdmin
+    .from("trips")
+    .select("id,user_email,direction,flight_date")
+    .in("id", [event.actorTripId, event.recipientTripId]);
+
+  if (tripsError) {
+    return { error: tripsError.message, notified: false };
+  }
+
+  const trips = (tripRows ?? []) as EventTrip[];
+  const actorTrip = trips.find((row) => row.id === event.actorTripId);
+  const recipientTrip = trips.find((row) => row.id === event.recipientTripId);
+  if (!actorTrip || !recipientTrip) {
+    return { error: "Trips not found", notified: false };
+  }
+
+  const { data: profileRows } = await supabaseAdmin
+    .from("profiles")
+    .select("email,name")
+    .in("email", [actorTrip.user_email, recipientTrip.user_email]);
+  const names = new Map((profileRows ?? []).map((row) => [row.email, row.name]));
+
+  const tripLabel = `${
+    recipientTrip.direction === "Arriving to Pittsburgh" ? "arrival" : "departure"
+  } on ${formatDateLong(recipientTrip.flight_date)}`;
+  const { subject, line } = describeMatchEvent(
+    event.type,
+    names.get(actorTrip.user_email) || "A CMU student",
+    tripLabel
+  );
+  const body = `Hi ${names.get(recipientTrip.user_email) || "there"},\n\n${line}\n\n— TartanTrips\n`;
+
+  const { error: sendError } = await sendEmail({
+    to: recipientTrip.user_email,
+    subject,
+    text: body
+  });
+  if (sendError) {
+    return { error: sendError, notified: false };
+  }
+
+  // The email already went out, so a failed insert is reported but still
+  // counts as notified.
+  const { error: insertError } = await supabaseAdmin.from("match_event_notifications").insert({
+    trip_id: event.recipientTripId,
+    matched_trip_id: event.actorTripId,
+    event_type: event.type,
+    notified_at: new Date().toISOString()
+  });
+
+  return { error: insertError?.message ?? null, notified: true };
+};
+
+// Emails the recipient about the event unless they already heard about this
+// kind of event from the same trip. Never throws: the action it reports has
+// already happened, so failures are returned instead.
+export const notifyMatchEvent = async (
+  supabaseAdmin: SupabaseClient,
+  event: MatchEvent
+): Promise<{ error: string | null; notified: boolean }> => {
+  try {
+    return await sendMatchEvent(supabaseAdmin, event);
+  } catch (sendError) {
+    return {
+      error: sendError instanceof Error ? sendError.message : "Failed to notify match event",
+      notified: false
+    };
+  }
+};
+
+export const notifyMatchEvents = async (supabaseAdmin: SupabaseClient, events: MatchEvent[]) => {
+  const results = await Promise.all(events.map((event) => notifyMatchEvent(supabaseAdmin, event)));
+  return results.filter((result) => result.notified).length;
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { MATCH_SCORE_WEIGHTS, scoreMatch, type ScorableTrip } from "./matchScore";
+
+const makeTrip = (overrides: Partial<ScorableTrip> = {}): ScorableTrip => ({
+  id: "trip-a",
+  user_email: "a@andrew.cmu.edu",
+  direction: "Arriving to Pittsburgh",
+  flight_date: "2026-11-02",
+  flight_time: "14:00",
+  allowed_partner_sex: "Any",
+  window_start: "2026-11-02T19:00:00.000Z",
+  window_end: "2026-11-02T21:00:00.000Z",
+  airline_code: "UA",
+  flight_number: "2451",
+  other_airport_code: "ORD",
+  party_size: 1,
+  checked_bags: 1,
+  carry_on_bags: 1,
+  campus_location: "cmu-cut",
+  ...overrides
+});
+
+const trip = makeTrip();
+
+const sameFlight = makeTrip({
+  id: "same-flight",
+  user_email: "b@andrew.cmu.edu",
+  campus_location: "cmu-hill-dorms"
+});
+
+const sameRoute = makeTrip({
+  id: "same-route",
+  user_email: "c@andrew.cmu.edu",
+  flight_time: "14:45",
+  window_start: "2026-11-02T20:30:00.000Z",
+  window_end: "2026-11-02T22:00:00.000Z",
+  airline_code: "AA",
+  flight_number: "100",
+  checked_bags: 2
+});
+
+const stranger = makeTrip({
+  id: "stranger",
+  user_email: "d@andrew.cmu.edu",
+  flight_time: "17:00",
+  window_start: "2026-11-02T22:00:00.000Z",
+  window_end: "2026-11-02T23:00:00.000Z",
+  airline_code: null,
+  flight_number: null,
+  other_airport_code: "DEN",
+  party_size: 3,
+  checked_bags: 4,
+  campus_location: "highland-park"
+});
+
+describe("scoreMatch", () => {
+  it("weighs the factors out of 100", () => {
+    expect(MATCH_SCORE_WEIGHTS).toEqual({
+      overlap: 25,
+      proximity: 20,
+      flight: 20,
+      luggage: 15,
+      campus: 10,
+      history: 10
+    });
+  });
+
+  it("scores a repeat partner on the same flight near the top", () => {
+    expect(scoreMatch(trip, sameFlight, { pastRidesTogether: 2 })).toEqual({
+      score: 99,
+      factors: { overlap: 25, proximity: 20, flight: 20, luggage: 15, campus: 9, history: 10 },
+      reasons: [
+        "Same flight (United Airlines UA 2451)",
+        "Windows overlap by 120 min",
+        "Flights at the same time",
+        "Luggage fits Standard (UberX, Lyft)",
+        "Campus stops 0.3 mi apart",
+        "Rode together 2 times before"
+      ]
+    });
+  });
+
+  it("gives partial credit to a nearby flight on the same route", () => {
+    expect(scoreMatch(trip, sameRoute)).toEqual({
+      score: 57,
+      factors: { overlap: 13, proximity: 15, flight: 10, luggage: 9, campus: 10, history: 0 },
+      reasons: [
+        "Also flying from ORD",
+        "Windows overlap by 30 min",
+        "Flights 45 min apart",
+        "Luggage fits XL (UberXL, Lyft XL)",
+        "Same campus stop (CMU – The Cut)"
+      ]
+    });
+  });
+
+  it("explains only what a distant candidate has going for it", () => {
+    expect(scoreMatch(trip, stranger)).toEqual({
+      score: 5,
+      factors: { overlap: 0, proximity: 0, flight: 0, luggage: 5, campus: 0, history: 0 },
+      reasons: ["Flights 180 min apart", "Luggage fits Van (Uber Van, taxi van)"]
+    });
+  });
+
+  it("says where a departing rider is flying to and counts a single past ride", () => {
+    const departing = makeTrip({ direction: "Departing from Pittsburgh", airline_code: null });
+    const partner = { ...departing, id: "partner", user_email: "e@andrew.cmu.edu" };
+
+    const { factors, reasons } = scoreMatch(departing, partner, { pastRidesTogether: 1 });
+
+    expect(factors.history).toBe(5);
+    expect(reasons[0]).toBe("Also flying to ORD");
+    expect(reasons.at(-1)).toBe("Rode together once before");
+  });
+
+  it("leaves out luggage when no vehicle fits both parties", () => {
+    const crowd = makeTrip({ id: "crowd", party_size: 5, checked_bags: 8 });
+
+    const { factors, reasons } = scoreMatch(trip, crowd);
+
+    expect(factors.luggage).toBe(0);
+    expect(reasons.some((reason) => reason.startsWith("Luggage"))).toBe(false);
+  });
+
+  it("orders candidates from best to worst match", () => {
+    const ranked = [stranger, sameRoute, sameFlight]
+      .map((candidate) => ({ id: candidate.id, ...scoreMatch(trip, candidate) }))
+      .sort((a, b) => b.score - a.score);
+
+    expect(ranked.map(({ id }) => id)).toEqual(["same-flight", "same-route", "stranger"]);
+  });
+});
@@ -0,0 +1,121 @@
+import { getDrivingMiles, getTripCampusLocation } from "./campusLocations";
+import { formatFlight } from "./flights";
+import {
+  flightTimeDistance,
+  getFlightAffinity,
+  getOverlapMinutes,
+  type MatchableTrip
+} from "./matching";
+import { VEHICLE_LIMITS, getSmallestVehicleClass, type TripLoad, type VehicleClass } from "./pools";
+
+export type MatchScoreFactor =
+  | "overlap"
+  | "proximity"
+  | "flight"
+  | "luggage"
+  | "campus"
+  | "history";
+
+export type ScorableTrip = MatchableTrip & Partial<TripLoad> & { campus_location?: string | null };
+
+export type MatchScoreContext = {
+  // Earlier rides the two riders completed together.
+  pastRidesTogether?: number;
+};
+
+export type MatchScore = {
+  score: number;
+  factors: Record<MatchScoreFactor, number>;
+  reasons: string[];
+};
+
+// Points per factor; a perfect match scores 100.
+export const MATCH_SCORE_WEIGHTS: Record<MatchScoreFactor, number> = {
+  overlap: 25,
+  proximity: 20,
+  flight: 20,
+  luggage: 15,
+  campus: 10,
+  history: 10
+};
+
+const FULL_OVERLAP_MINUTES = 60;
+const MAX_USEFUL_GAP_MINUTES = 180;
+const FULL_HISTORY_RIDES = 2;
+const MAX_USEFUL_CAMPUS_MILES = 3;
+
+const LUGGAGE_FIT: Record<VehicleClass, number> = {
+  standard: 1,
+  xl: 0.6,
+  van: 0.3
+};
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export const scoreMatch = (
+  trip: ScorableTrip,
+  candidate: ScorableTrip,
+  context: MatchScoreContext = {}
+): MatchScore => {
+  const overlapMinutes = getOverlapMinutes(
+    trip.window_start,
+    trip.window_end,
+    candidate.window_start,
+    candidate.window_end
+  );
+  const gapMinutes = Math.round(flightTimeDistance(trip, candidate) / 60000);
+  const affinity = getFlightAffinity(trip, candidate);
+  const vehicleClass = getSmallestVehicleClass([trip, candidate]);
+  const pastRides = context.pastRidesTogether ?? 0;
+  const tripLocation = getTripCampusLocation(trip.campus_location);
+  const candidateLocation = getTripCampusLocation(candidate.campus_location);
+  const campusMiles = getDrivingMiles(tripLocation.code, candidateLocation.code);
+
+  const ratios: Record<MatchScoreFactor, number> = {
+    overlap: clamp(overlapMinutes / FULL_OVERLAP_MINUTES),
+    proximity: Number.isFinite(gapMinutes) ? clamp(1 - gapMinutes / MAX_USEFUL_GAP_MINUTES) : 0,
+    flight: affinity === "same_flight" ? 1 : affinity === "same_route" ? 0.5 : 0,
+    luggage: vehicleClass ? LUGGAGE_FIT[vehicleClass] : 0,
+    campus: clamp(1 - campusMiles / MAX_USEFUL_CAMPUS_MILES),
+    history: clamp(pastRides / FULL_HISTORY_RIDES)
+  };
+
+  const factors = Object.fromEntries(
+    Object.entries(ratios).map(([factor, ratio]) => [
+      factor,
+      Math.round(ratio * MATCH_SCORE_WEIGHTS[factor as MatchScoreFactor])
+    ])
+  ) as Record<MatchScoreFactor, number>;
+
+  const reasons: string[] = [];
+  if (affinity === "same_flight") {
+    reasons.push(`Same flight (${formatFlight(candidate) ?? "your flight"})`);
+  } else if (affinity === "same_route") {
+    const preposition = trip.direction === "Arriving to Pittsburgh" ? "from" : "to";
+    reasons.push(`Also flying ${preposition} ${candidate.other_airport_code}`);
+  }
+  if (overlapMinutes > 0) {
+    reasons.push(`Windows overlap by ${overlapMinutes} min`);
+  }
+  if (Number.isFinite(gapMinutes)) {
+    reasons.push(gapMinutes === 0 ? "Flights at the same time" : `Flights ${gapMinutes} min apart`);
+  }
+  if (vehicleClass) {
+    const limits = VEHICLE_LIMITS[vehicleClass];
+    reasons.push(`Luggage fits ${limits.label} (${limits.examples})`);
+  }
+  if (tripLocation.code === candidateLocation.code) {
+    reasons.push(`Same campus stop (${tripLocation.name})`);
+  } else if (campusMiles < MAX_USEFUL_CAMPUS_MILES) {
+    reasons.push(`Campus stops ${campusMiles} mi apart`);
+  }
+  if (pastRides > 0) {
+    reasons.push(`Rode together ${pastRides === 1 ? "once" : `${pastRides} times`} before`);
+  }
+
+  return {
+    score: Object.values(factors).reduce((total, points) => total + points, 0),
+    factors,
+    reasons
+  };
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  MATCH_ACTIONS,
+  describeMatchStatusChange,
+  getAllowedActions,
+  getMatchRole,
+  validateMatchTransition,
+  type MatchAction,
+  type MatchErrorCode,
+  type MatchRole
+} from "./matchStateMachine";
+
+// Each role with the statuses (viewer's row, reciprocal row) that produce it.
+const ROLE_STATUSES: [MatchRole, string | null, string | null][] = [
+  ["none", null, null],
+  ["requester", "request_sent", "request_received"],
+  ["recipient", "request_received", "request_sent"],
+  ["awaiting_partners", "partner_approval_needed", "partner_approval_needed"],
+  ["pool_partner", "partner_approval_needed", null],
+  ["matched", "matched", "matched"]
+];
+
+// The outcome of every action from every role: true when allowed, otherwise
+// the error code it is rejected with.
+const EXPECTED: Record<MatchRole, Record<MatchAction, true | MatchErrorCode>> = {
+  none: {
+    request: true,
+    withdraw: "MATCH_NOT_FOUND",
+    accept: "MATCH_NOT_FOUND",
+    deny: "MATCH_NOT_FOUND",
+    remove: "MATCH_NOT_FOUND"
+  },
+  requester: {
+    request: "ALREADY_CONNECTED",
+    withdraw: true,
+    accept: "ILLEGAL_TRANSITION",
+    deny: "ILLEGAL_TRANSITION",
+    remove: "ILLEGAL_TRANSITION"
+  },
+  recipient: {
+    request: "ALREADY_CONNECTED",
+    withdraw: "ILLEGAL_TRANSITION",
+    accept: true,
+    deny: true,
+    remove: "ILLEGAL_TRANSITION"
+  },
+  awaiting_partners: {
+    request: "ALREADY_CONNECTED",
+    withdraw: true,
+    accept: "ILLEGAL_TRANSITION",
+    deny: "ILLEGAL_TRANSITION",
+    remove: "ILLEGAL_TRANSITION"
+  },
+  pool_partner: {
+    request: "ALREADY_CONNECTED",
+    withdraw: "ILLEGAL_TRANSITION",
+    accept: true,
+    deny: true,
+    remove: "ILLEGAL_TRANSITION"
+  },
+  matched: {
+    request: "ALREADY_CONNECTED",
+    withdraw: "ILLEGAL_TRANSITION",
+    accept: "ILLEGAL_TRANSITION",
+    deny: "ILLEGAL_TRANSITION",
+    remove: true
+  }
+};
+
+describe("getMatchRole", () => {
+  it.each(ROLE_STATUSES)("reads %s from (%s, %s)", (role, status, reciprocalStatus) => {
+    expect(getMatchRole(status, reciprocalStatus)).toBe(role);
+  });
+
+  it.each([
+    ["request_sent", null],
+    ["request_sent", "request_sent"],
+    ["request_received", "matched"],
+    ["partner_approval_needed", "matched"],
+    ["matched", null],
+    [null, "request_sent"],
+    ["unknown", "unknown"]
+  ])("has no role for the mismatched pair (%s, %s)", (status, reciprocalStatus) => {
+    expect(getMatchRole(status, reciprocalStatus)).toBeNull();
+  });
+});
+
+describe("getAllowedActions", () => {
+  it.each(ROLE_STATUSES)("lists the allowed actions for %s", (role) => {
+    const allowed = MATCH_ACTIONS.filter((action) => EXPECTED[role][action] === true);
+    expect([...getAllowedActions(role)].sort()).toEqual([...allowed].sort());
+  });
+
+  it("allows nothing without a role", () => {
+    expect(getAllowedActions(null)).toEqual([]);
+  });
+});
+
+describe("validateMatchTransition", () => {
+  const cases = ROLE_STATUSES.flatMap(([role, status, reciprocalStatus]) =>
+    MATCH_ACTIONS.map(
+      (action) => [role, action, status, reciprocalStatus, EXPECTED[role][action]] as const
+    )
+  );
+
+  it.each(cases)("%s: %s", (role, action, status, reciprocalStatus, expected) => {
+    const result = validateMatchTransition(action, status, reciprocalStatus);
+    expect(result.role).toBe(role);
+    if (expected === true) {
+      expect(result.ok).toBe(true);
+    } else {
+      expect(result).toMatchObject({ ok: false, code: expected });
+    }
+  });
+
+  it("rejects a requester accepting their own request", () => {
+    expect(validateMatchTransition("accept", "request_sent", "request_received")).toEqual({
+      ok: false,
+      role: "requester",
+      code: "ILLEGAL_TRANSITION",
+      message: "You can't accept this match right now."
+    });
+  });
+
+  it("rejects unknown actions and out-of-sync pairs", () => {
+    expect(validateMatchTransition("promote", null, null)).toMatchObject({
+      ok: false,
+      code: "UNSUPPORTED_ACTION"
+    });
+    expect(validateMatchTransition("accept", "matched", "request_sent")).toMatchObject({
+      ok: false,
+      role: null,
+      code: "INCONSISTENT_STATE"
+    });
+  });
+});
+
+describe("describeMatchStatusChange", () => {
+  it("reports a new incoming request", () => {
+    expect(describeMatchStatusChange(null, "request_received")).toBe("requested");
+    expect(describeMatchStatusChange("request_received", "request_received")).toBeNull();
+  });
+
+  it("reports an accept, directly or after pool approval", () => {
+    expect(describeMatchStatusChange("request_sent", "matched")).toBe("accepted");
+    expect(describeMatchStatusChange("partner_approval_needed", "matched")).toBe("accepted");
+  });
+
+  it("reports a rider joining the pool", () => {
+    expect(describeMatchStatusChange(null, "matched")).toBe("joined");
+    expect(describeMatchStatusChange(undefined, "matched")).toBe("joined");
+  });
+
+  it("ignores the viewer's own accept", () => {
+    expect(describeMatchStatusChange("request_received", "matched")).toBeNull();
+  });
+});
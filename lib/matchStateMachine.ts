@@ -0,0 +1,163 @@
+export const MATCH_STATUSES = [
+  "request_sent",
+  "request_received",
+  "partner_approval_needed",
+  "matched"
+] as const;
+
+export type MatchStatus = (typeof MATCH_STATUSES)[number];
+
+export const MATCH_ACTIONS = ["request", "withdraw", "accept", "deny", "remove"] as const;
+
+export type MatchAction = (typeof MATCH_ACTIONS)[number];
+
+// The viewer's role in a relationship, seen from their own trip.
+// `awaiting_partners` is either side of a request waiting on an existing pool's approval;
+// `pool_partner` is an existing pool member being asked to approve a newcomer.
+export type MatchRole =
+  | "none"
+  | "requester"
+  | "recipient"
+  | "awaiting_partners"
+  | "pool_partner"
+  | "matched";
+
+export type MatchErrorCode =
+  | "INVALID_REQUEST"
+  | "UNSUPPORTED_ACTION"
+  | "UNAUTHENTICATED"
+  | "NOT_AUTHORIZED"
+  | "TRIPS_NOT_FOUND"
+  | "MATCH_NOT_FOUND"
+  | "ALREADY_CONNECTED"
+  | "ILLEGAL_TRANSITION"
+  | "INCONSISTENT_STATE"
+  | "MATCH_CHANGED"
+  | "POOL_CONFLICT"
+  | "POOL_FULL"
+  | "SERVER_ERROR";
+
+export type MatchTransitionResult =
+  | { ok: true; role: MatchRole }
+  | { ok: false; role: MatchRole | null; code: MatchErrorCode; message: string };
+
+const MATCH_TRANSITIONS: Record<MatchRole, MatchAction[]> = {
+  none: ["request"],
+  requester: ["withdraw"],
+  recipient: ["accept", "deny"],
+  awaiting_partners: ["withdraw"],
+  pool_partner: ["accept", "deny"],
+  matched: ["remove"]
+};
+
+export const isMatchStatus = (value: unknown): value is MatchStatus => {
+  return MATCH_STATUSES.includes(value as MatchStatus);
+};
+
+export const isMatchAction = (value: unknown): value is MatchAction => {
+  return MATCH_ACTIONS.includes(value as MatchAction);
+};
+
+export const getMatchRole = (
+  status: string | null | undefined,
+  reciprocalStatus: string | null | undefined
+): MatchRole | null => {
+  if (!status) {
+    return reciprocalStatus ? null : "none";
+  }
+
+  if (status === "request_sent") {
+    return reciprocalStatus === "request_received" ? "requester" : null;
+  }
+
+  if (status === "request_received") {
+    return reciprocalStatus === "request_sent" ? "recipient" : null;
+  }
+
+  if (status === "partner_approval_needed") {
+    if (reciprocalStatus === "partner_approval_needed") {
+      return "awaiting_partners";
+    }
+    return reciprocalStatus ? null : "pool_partner";
+  }
+
+  if (status === "matched") {
+    return reciprocalStatus === "matched" ? "matched" : null;
+  }
+
+  return null;
+};
+
+export const getAllowedActions = (role: MatchRole | null): MatchAction[] => {
+  return role ? MATCH_TRANSITIONS[role] : [];
+};
+
+export const validateMatchTransition = (
+  action: string,
+  status: string | null | undefined,
+  reciprocalStatus: string | null | undefined
+): MatchTransitionResult => {
+  const role = getMatchRole(status, reciprocalStatus);
+
+  if (!isMatchAction(action)) {
+    return { ok: false, role, code: "UNSUPPORTED_ACTION", message: "Unsupported action" };
+  }
+
+  if (!role) {
+    return {
+      ok: false,
+      role,
+      code: "INCONSISTENT_STATE",
+      message: "This match is out of sync. Please refresh and try again."
+    };
+  }
+
+  if (getAllowedActions(role).includes(action)) {
+    return { ok: true, role };
+  }
+
+  if (role === "none") {
+    return { ok: false, role, code: "MATCH_NOT_FOUND", message: "Match not found" };
+  }
+
+  if (action === "request") {
+    return {
+      ok: false,
+      role,
+      code: "ALREADY_CONNECTED",
+      message: "You already have a request or match with this trip."
+    };
+  }
+
+  return {
+    ok: false,
+    role,
+    code: "ILLEGAL_TRANSITION",
+    message: `You can't ${action} this match right now.`
+  };
+};
+
+export type MatchStatusChange = "requested" | "accepted" | "joined";
+
+// What another rider did, judged from a change to the viewer's own row. The
+// viewer's own accept also turns their row into `matched`, but from
+// `request_received`, so it isn't reported back to them. A row that is
+// `matched` from the start means a rider joined the viewer's pool.
+export const describeMatchStatusChange = (
+  previousStatus: string | null | undefined,
+  nextStatus: string | null | undefined
+): MatchStatusChange | null => {
+  if (nextStatus === "request_received" && previousStatus !== "request_received") {
+    return "requested";
+  }
+
+  if (nextStatus !== "matched") {
+    return null;
+  }
+
+  if (previousStatus === "request_sent" || previousStatus === "partner_approval_needed") {
+    return "accepted";
+  }
+
+  return previousStatus ? null : "joined";
+};
@@ -0,0 +1,298 @@
+import { describe, expect, it } from "vitest";
+import {
+  allowsSex,
+  compareMatches,
+  findCompatibleMatches,
+  getWindowGapMinutes,
+  groupMatches,
+  isCompatible,
+  windowsOverlap,
+  type MatchableProfile,
+  type MatchableTrip
+} from "./matching";
+import type { PoolSummary } from "./pools";
+
+const makeTrip = (overrides: Partial<MatchableTrip> = {}): MatchableTrip => ({
+  id: "trip-a",
+  user_email: "a@andrew.cmu.edu",
+  direction: "Arriving to Pittsburgh",
+  flight_date: "2026-11-02",
+  flight_time: "14:00",
+  allowed_partner_sex: "Any",
+  window_start: "2026-11-02T19:00:00.000Z",
+  window_end: "2026-11-02T21:00:00.000Z",
+  ...overrides
+});
+
+const makePool = (id: string, memberTripIds: string[]): PoolSummary => ({
+  id,
+  direction: "Arriving to Pittsburgh",
+  flight_date: "2026-11-02",
+  organizer_trip_id: memberTripIds[0] ?? null,
+  booker_trip_id: null,
+  vehicle_class: "standard",
+  status: "open",
+  member_trip_ids: memberTripIds,
+  load: { party_size: memberTripIds.length, checked_bags: 0, carry_on_bags: 0 }
+});
+
+const femaleProfile: MatchableProfile = { email: "a@andrew.cmu.edu", sex: "Female" };
+const maleProfile: MatchableProfile = { email: "b@andrew.cmu.edu", sex: "Male" };
+
+describe("allowsSex", () => {
+  it("allows anyone when there is no preference", () => {
+    expect(allowsSex(null, "Male")).toBe(true);
+    expect(allowsSex("Any", null)).toBe(true);
+  });
+
+  it("only allows the named sex for restricted preferences", () => {
+    expect(allowsSex("Female only", "Female")).toBe(true);
+    expect(allowsSex("Female only", "Male")).toBe(false);
+    expect(allowsSex("Male only", "Male")).toBe(true);
+    expect(allowsSex("Non-binary only", "Non-binary")).toBe(true);
+    expect(allowsSex("Non-binary only", null)).toBe(false);
+  });
+
+  it("rejects unknown preferences", () => {
+    expect(allowsSex("Someone", "Female")).toBe(false);
+  });
+});
+
+describe("windowsOverlap", () => {
+  it("detects overlapping and touching windows", () => {
+    expect(
+      windowsOverlap(
+        "2026-11-02T19:00:00Z",
+        "2026-11-02T21:00:00Z",
+        "2026-11-02T20:00:00Z",
+        "2026-11-02T22:00:00Z"
+      )
+    ).toBe(true);
+    expect(
+      windowsOverlap(
+        "2026-11-02T19:00:00Z",
+        "2026-11-02T21:00:00Z",
+        "2026-11-02T21:00:00Z",
+        "2026-11-02T22:00:00Z"
+      )
+    ).toBe(true);
+  });
+
+  it("handles windows that cross midnight", () => {
+    expect(
+      windowsOverlap(
+        "2026-11-03T03:30:00Z",
+        "2026-11-03T05:30:00Z",
+        "2026-11-03T05:00:00Z",
+        "2026-11-03T06:00:00Z"
+      )
+    ).toBe(true);
+  });
+
+  it("is false for disjoint or missing windows", () => {
+    expect(
+      windowsOverlap(
+        "2026-11-02T19:00:00Z",
+        "2026-11-02T20:00:00Z",
+        "2026-11-02T20:30:00Z",
+        "2026-11-02T21:00:00Z"
+      )
+    ).toBe(false);
+    expect(windowsOverlap(null, "2026-11-02T20:00:00Z", "2026-11-02T19:00:00Z", null)).toBe(false);
+  });
+});
+
+describe("getWindowGapMinutes", () => {
+  it("is 0 for overlapping windows", () => {
+    expect(
+      getWindowGapMinutes(
+        "2026-11-02T19:00:00Z",
+        "2026-11-02T21:00:00Z",
+        "2026-11-02T20:00:00Z",
+        "2026-11-02T22:00:00Z"
+      )
+    ).toBe(0);
+  });
+
+  it("measures the gap in either order", () => {
+    expect(
+      getWindowGapMinutes(
+        "2026-11-02T19:00:00Z",
+        "2026-11-02T20:00:00Z",
+        "2026-11-02T20:45:00Z",
+        "2026-11-02T21:00:00Z"
+      )
+    ).toBe(45);
+    expect(
+      getWindowGapMinutes(
+        "2026-11-02T20:45:00Z",
+        "2026-11-02T21:00:00Z",
+        "2026-11-02T19:00:00Z",
+        "2026-11-02T20:00:00Z"
+      )
+    ).toBe(45);
+  });
+
+  it("is null when a window is missing", () => {
+    expect(getWindowGapMinutes(null, null, "2026-11-02T19:00:00Z", "2026-11-02T20:00:00Z")).toBe(
+      null
+    );
+  });
+});
+
+describe("isCompatible", () => {
+  const trip = makeTrip();
+  const candidate = makeTrip({
+    id: "trip-b",
+    user_email: "b@andrew.cmu.edu",
+    window_start: "2026-11-02T20:00:00.000Z",
+    window_end: "2026-11-02T22:00:00.000Z"
+  });
+
+  it("accepts overlapping trips whose preferences allow each other", () => {
+    expect(isCompatible(trip, femaleProfile, candidate, maleProfile)).toBe(true);
+  });
+
+  it("rejects the rider's own trips and other directions", () => {
+    expect(
+      isCompatible(trip, femaleProfile, { ...candidate, user_email: trip.user_email }, maleProfile)
+    ).toBe(false);
+    expect(
+      isCompatible(
+        trip,
+        femaleProfile,
+        { ...candidate, direction: "Departing from Pittsburgh" },
+        maleProfile
+      )
+    ).toBe(false);
+  });
+
+  it("checks partner preferences on both sides", () => {
+    expect(
+      isCompatible({ ...trip, allowed_partner_sex: "Female only" }, femaleProfile, candidate, maleProfile)
+    ).toBe(false);
+    expect(
+      isCompatible(trip, femaleProfile, { ...candidate, allowed_partner_sex: "Male only" }, maleProfile)
+    ).toBe(false);
+    expect(isCompatible(trip, femaleProfile, candidate, { ...maleProfile, sex: null })).toBe(false);
+  });
+
+  it("only bridges a window gap when allowed", () => {
+    const later = {
+      ...candidate,
+      window_start: "2026-11-02T21:30:00.000Z",
+      window_end: "2026-11-02T22:30:00.000Z"
+    };
+    expect(isCompatible(trip, femaleProfile, later, maleProfile)).toBe(false);
+    expect(
+      isCompatible(trip, femaleProfile, later, maleProfile, { maxWindowGapMinutes: 30 })
+    ).toBe(true);
+  });
+
+  it("skips satisfied trips on request", () => {
+    const satisfied = { ...candidate, trip_status: "Matched and satisfied" };
+    expect(isCompatible(trip, femaleProfile, satisfied, maleProfile)).toBe(true);
+    expect(
+      isCompatible(trip, femaleProfile, satisfied, maleProfile, { skipSatisfied: true })
+    ).toBe(false);
+  });
+});
+
+describe("findCompatibleMatches", () => {
+  it("orders same-flight, then same-route, then by flight proximity", () => {
+    const trip = makeTrip({ airline_code: "WN", flight_number: "1234", other_airport_code: "BWI" });
+    const profiles = new Map<string, MatchableProfile>([
+      [trip.user_email, femaleProfile],
+      ["b@andrew.cmu.edu", maleProfile],
+      ["c@andrew.cmu.edu", { email: "c@andrew.cmu.edu", sex: "Female" }],
+      ["d@andrew.cmu.edu", { email: "d@andrew.cmu.edu", sex: "Male" }],
+      ["e@andrew.cmu.edu", { email: "e@andrew.cmu.edu", sex: "Female" }]
+    ]);
+    const candidates = [
+      makeTrip({ id: "far", user_email: "b@andrew.cmu.edu", flight_time: "15:30" }),
+      makeTrip({ id: "near", user_email: "c@andrew.cmu.edu", flight_time: "14:10" }),
+      makeTrip({
+        id: "route",
+        user_email: "d@andrew.cmu.edu",
+        flight_time: "15:45",
+        other_airport_code: "BWI"
+      }),
+      makeTrip({
+        id: "flight",
+        user_email: "e@andrew.cmu.edu",
+        flight_time: "14:00",
+        airline_code: "WN",
+        flight_number: "1234"
+      })
+    ];
+
+    expect(findCompatibleMatches(trip, candidates, profiles).map((match) => match.id)).toEqual([
+      "flight",
+      "route",
+      "near",
+      "far"
+    ]);
+  });
+
+  it("drops incompatible candidates", () => {
+    const trip = makeTrip({ allowed_partner_sex: "Female only" });
+    const profiles = new Map<string, MatchableProfile>([
+      [trip.user_email, femaleProfile],
+      ["b@andrew.cmu.edu", maleProfile]
+    ]);
+    const candidates = [makeTrip({ id: "trip-b", user_email: "b@andrew.cmu.edu" })];
+
+    expect(findCompatibleMatches(trip, candidates, profiles)).toEqual([]);
+  });
+});
+
+describe("compareMatches", () => {
+  it("keeps affinity tiers ahead of the tiebreak", () => {
+    const trip = makeTrip({ airline_code: "WN", flight_number: "1234", other_airport_code: "BWI" });
+    const scores = new Map([
+      ["flight", 40],
+      ["route", 90],
+      ["other", 100],
+      ["route-low", 60]
+    ]);
+    const candidates = [
+      makeTrip({ id: "other" }),
+      makeTrip({ id: "route-low", other_airport_code: "BWI" }),
+      makeTrip({ id: "flight", airline_code: "WN", flight_number: "1234" }),
+      makeTrip({ id: "route", other_airport_code: "BWI" })
+    ];
+    const byScore = (a: MatchableTrip, b: MatchableTrip) =>
+      (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0);
+
+    expect(candidates.sort(compareMatches(trip, byScore)).map((match) => match.id)).toEqual([
+      "flight",
+      "route",
+      "route-low",
+      "other"
+    ]);
+  });
+});
+
+describe("groupMatches", () => {
+  it("keeps unpooled matches single and gathers pool members in order", () => {
+    const matches = [
+      makeTrip({ id: "solo" }),
+      makeTrip({ id: "pool-1-a" }),
+      makeTrip({ id: "pair-a" }),
+      makeTrip({ id: "pool-1-b" })
+    ];
+    const bigPool = makePool("pool-1", ["pool-1-a", "pool-1-b", "pool-1-c"]);
+    const pairPool = makePool("pool-2", ["pair-a", "pair-b"]);
+    const pools: Record<string, PoolSummary> = {
+      "pool-1-a": bigPool,
+      "pool-1-b": bigPool,
+      "pair-a": pairPool
+    };
+
+    const groups = groupMatches(matches, (match) => pools[match.id] ?? null);
+
+    expect(groups.map((group) => group.kind)).toEqual(["single", "pool", "pair"]);
+    expect(groups[1].members.map((member) => member.id)).toEqual(["pool-1-a", "pool-1-b"]);
+    expect(groups[2].pool?.id).toBe("pool-2");
+  });
+});
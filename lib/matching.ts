@@ -0,0 +1,287 @@
+import type { PoolSummary } from "./pools";
+import { addMinutes, toPittsburghInstant } from "./time";
+
+export type MatchableTrip = {
+  id: string;
+  user_email: string;
+  direction: string;
+  flight_date: string;
+  flight_time: string;
+  allowed_partner_sex: string | null;
+  window_start: string | null;
+  window_end: string | null;
+  trip_status?: string | null;
+  airline_code?: string | null;
+  flight_number?: string | null;
+  other_airport_code?: string | null;
+};
+
+export type MatchableProfile = {
+  email: string;
+  sex: string | null;
+};
+
+export type MatchOptions = {
+  skipSatisfied?: boolean;
+  // Also accept windows that miss each other by up to this many minutes.
+  maxWindowGapMinutes?: number;
+};
+
+// How closely two compatible trips share a flight: the exact same flight, or
+// the same airport at the other end (origin for arrivals, destination for departures).
+export type FlightAffinity = "same_flight" | "same_route";
+
+const FLIGHT_AFFINITY_RANK: Record<FlightAffinity, number> = {
+  same_flight: 0,
+  same_route: 1
+};
+
+const SATISFIED_TRIP_STATUS = "Matched and satisfied";
+
+export const allowsSex = (allowed: string | null, partnerSex: string | null) => {
+  if (!allowed || allowed === "Any") {
+    return true;
+  }
+
+  if (allowed === "Male only") {
+    return partnerSex === "Male";
+  }
+
+  if (allowed === "Female only") {
+    return partnerSex === "Female";
+  }
+
+  if (allowed === "Non-binary only") {
+    return partnerSex === "Non-binary";
+  }
+
+  return false;
+};
+
+export const windowsOverlap = (
+  aStart: string | null,
+  aEnd: string | null,
+  bStart: string | null,
+  bEnd: string | null
+) => {
+  if (!aStart || !aEnd || !bStart || !bEnd) {
+    return false;
+  }
+
+  const aStartDate = new Date(aStart);
+  const aEndDate = new Date(aEnd);
+  const bStartDate = new Date(bStart);
+  const bEndDate = new Date(bEnd);
+
+  return aStartDate <= bEndDate && aEndDate >= bStartDate;
+};
+
+// Minutes the two windows share; 0 when they don't overlap.
+export const getOverlapMinutes = (
+  aStart: string | null,
+  aEnd: string | null,
+  bStart: string | null,
+  bEnd: string | null
+) => {
+  if (!windowsOverlap(aStart, aEnd, bStart, bEnd)) {
+    return 0;
+  }
+
+  const start = Math.max(new Date(aStart as string).getTime(), new Date(bStart as string).getTime());
+  const end = Math.min(new Date(aEnd as string).getTime(), new Date(bEnd as string).getTime());
+  return Math.round((end - start) / 60000);
+};
+
+// Minutes between two windows that don't overlap; 0 when they do and null
+// when either window is unknown.
+export const getWindowGapMinutes = (
+  aStart: string | null,
+  aEnd: string | null,
+  bStart: string | null,
+  bEnd: string | null
+) => {
+  if (!aStart || !aEnd || !bStart || !bEnd) {
+    return null;
+  }
+
+  if (windowsOverlap(aStart, aEnd, bStart, bEnd)) {
+    return 0;
+  }
+
+  const gap = Math.max(
+    new Date(bStart).getTime() - new Date(aEnd).getTime(),
+    new Date(aStart).getTime() - new Date(bEnd).getTime()
+  );
+  return Math.ceil(gap / 60000);
+};
+
+// Query bounds for trips whose windows can come within slackMinutes of this
+// trip's window. Windows are instants, so this finds partners across
+// midnight; null when the trip has no window.
+export const getCandidateWindowBounds = (
+  trip: Pick<MatchableTrip, "window_start" | "window_end">,
+  slackMinutes = 0
+) => {
+  if (!trip.window_start || !trip.window_end) {
+    return null;
+  }
+
+  return {
+    latestStart: addMinutes(new Date(trip.window_end), slackMinutes).toISOString(),
+    earliestEnd: addMinutes(new Date(trip.window_start), -slackMinutes).toISOString()
+  };
+};
+
+export const flightTimeDistance = (trip: MatchableTrip, candidate: MatchableTrip) => {
+  const a = toPittsburghInstant(trip.flight_date, trip.flight_time);
+  const b = toPittsburghInstant(candidate.flight_date, candidate.flight_time);
+
+  if (Number.isNaN(a.getTime()) || Number.isNaN(b.getTime())) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  return Math.abs(a.getTime() - b.getTime());
+};
+
+export const compareByFlightProximity = (trip: MatchableTrip) => {
+  return (a: MatchableTrip, b: MatchableTrip) =>
+    flightTimeDistance(trip, a) - flightTimeDistance(trip, b);
+};
+
+export const getFlightAffinity = (
+  trip: MatchableTrip,
+  candidate: MatchableTrip
+): FlightAffinity | null => {
+  if (candidate.direction !== trip.direction) {
+    return null;
+  }
+
+  if (
+    trip.flight_date === candidate.flight_date &&
+    trip.airline_code &&
+    trip.flight_number &&
+    trip.airline_code === candidate.airline_code &&
+    trip.flight_number === candidate.flight_number
+  ) {
+    return "same_flight";
+  }
+
+  if (trip.other_airport_code && trip.other_airport_code === candidate.other_airport_code) {
+    return "same_route";
+  }
+
+  return null;
+};
+
+const flightAffinityRank = (trip: MatchableTrip, candidate: MatchableTrip) => {
+  const affinity = getFlightAffinity(trip, candidate);
+  return affinity ? FLIGHT_AFFINITY_RANK[affinity] : Object.keys(FLIGHT_AFFINITY_RANK).length;
+};
+
+// Same-flight matches first, then same-route ones, each by flight proximity
+// unless another tiebreak is given.
+export const compareMatches = <T extends MatchableTrip>(
+  trip: MatchableTrip,
+  tiebreak: (a: T, b: T) => number = compareByFlightProximity(trip)
+) => {
+  return (a: T, b: T) =>
+    flightAffinityRank(trip, a) - flightAffinityRank(trip, b) || tiebreak(a, b);
+};
+
+export const isCompatible = (
+  trip: MatchableTrip,
+  tripProfile: MatchableProfile | null | undefined,
+  candidate: MatchableTrip,
+  candidateProfile: MatchableProfile | null | undefined,
+  options: MatchOptions = {}
+) => {
+  if (candidate.id === trip.id || candidate.user_email === trip.user_email) {
+    return false;
+  }
+
+  if (candidate.direction !== trip.direction) {
+    return false;
+  }
+
+  if (options.skipSatisfied && candidate.trip_status === SATISFIED_TRIP_STATUS) {
+    return false;
+  }
+
+  const windowGap = getWindowGapMinutes(
+    trip.window_start,
+    trip.window_end,
+    candidate.window_start,
+    candidate.window_end
+  );
+  if (windowGap === null || windowGap > (options.maxWindowGapMinutes ?? 0)) {
+    return false;
+  }
+
+  if (!tripProfile?.sex || !candidateProfile?.sex) {
+    return false;
+  }
+
+  return (
+    allowsSex(trip.allowed_partner_sex, candidateProfile.sex) &&
+    allowsSex(candidate.allowed_partner_sex, tripProfile.sex)
+  );
+};
+
+export const findCompatibleMatches = <T extends MatchableTrip>(
+  trip: MatchableTrip,
+  candidates: T[],
+  profiles: Map<string, MatchableProfile>,
+  options: MatchOptions = {}
+) => {
+  const tripProfile = profiles.get(trip.user_email);
+
+  return candidates
+    .filter((candidate) =>
+      isCompatible(trip, tripProfile, candidate, profiles.get(candidate.user_email), options)
+    )
+    .sort(compareMatches(trip));
+};
+
+export type MatchGroupKind = "single" | "pair" | "pool";
+
+export type MatchGroup<T> = {
+  kind: MatchGroupKind;
+  members: T[];
+  pool: PoolSummary | null;
+};
+
+export const getMatchGroupKind = (size: number): MatchGroupKind => {
+  return size <= 1 ? "single" : size === 2 ? "pair" : "pool";
+};
+
+export const groupMatches = <T extends MatchableTrip>(
+  matches: T[],
+  getPool: (match: T) => PoolSummary | null
+): MatchGroup<T>[] => {
+  const groups: MatchGroup<T>[] = [];
+  const groupsByPool = new Map<string, MatchGroup<T>>();
+
+  matches.forEach((candidate) => {
+    const pool = getPool(candidate);
+    if (!pool) {
+      groups.push({ kind: "single", members: [candidate], pool: null });
+      return;
+    }
+
+    const existing = groupsByPool.get(pool.id);
+    if (existing) {
+      existing.members.push(candidate);
+      return;
+    }
+
+    const group: MatchGroup<T> = {
+      kind: getMatchGroupKind(pool.member_trip_ids.length),
+      members: [candidate],
+      pool
+    };
+    groupsByPool.set(pool.id, group);
+    groups.push(group);
+  });
+
+  return groups;
+};
@@ -0,0 +1,81 @@
+// Mirrored by the check constraint on public.messages.
+export const MAX_MESSAGE_LENGTH = 2000;
+
+// Used only when the Realtime channel is not connected.
+export const MESSAGE_POLL_INTERVAL_MS = 5000;
+export const UNREAD_POLL_INTERVAL_MS = 30000;
+
+// Fired on window when a thread is marked read so the unread badge refreshes.
+export const MESSAGES_READ_EVENT = "tartantrips:messages-read";
+
+export type MessageThreadKind = "match" | "pool";
+
+export type MessageThreadSummary = {
+  id: string;
+  kind: MessageThreadKind;
+  pool_id: string | null;
+  trip_ids: string[];
+  last_message_at: string | null;
+  unread: number;
+};
+
+export type ChatMember = {
+  trip_id: string;
+  name: string;
+  avatar_path: string | null;
+  is_you: boolean;
+};
+
+export type ChatMessage = {
+  id: string;
+  thread_id: string;
+  sender_trip_id: string | null;
+  body: string;
+  created_at: string;
+};
+
+export const normalizeMessageBody = (value: unknown) => {
+  const body = typeof value === "string" ? value.trim() : "";
+  if (!body) {
+    return { body: null, error: "Write a message first." };
+  }
+
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    return { body: null, error: `Messages can be up to ${MAX_MESSAGE_LENGTH} characters.` };
+  }
+
+  return { body };
+};
+
+export const countUnreadMessages = (threads: MessageThreadSummary[]) => {
+  return threads.reduce((total, thread) => total + thread.unread, 0);
+};
+
+// Match threads are keyed by the pair of trips, whichever side opens them.
+export const findMatchThread = (
+  threads: MessageThreadSummary[],
+  tripId: string,
+  matchedTripId: string
+) => {
+  return (
+    threads.find(
+      (thread) =>
+        thread.kind === "match" &&
+        thread.trip_ids.includes(tripId) &&
+        thread.trip_ids.includes(matchedTripId)
+    ) ?? null
+  );
+};
+
+export const findPoolThread = (threads: MessageThreadSummary[], poolId: string) => {
+  return threads.find((thread) => thread.kind === "pool" && thread.pool_id === poolId) ?? null;
+};
+
+// Realtime and polling can both deliver the same message.
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return Array.from(byId.values()).sort(
+    (a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id)
+  );
+};
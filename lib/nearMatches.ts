@@ -0,0 +1,117 @@
+import { getWindowGapMinutes } from "./matching";
+import { addMinutes, toPittsburghDateTime } from "./time";
+
+export const DEFAULT_NEAR_MATCH_GAP_MINUTES = 30;
+export const MAX_NEAR_MATCH_GAP_MINUTES = 120;
+export const NEAR_MATCH_GAP_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+const ARRIVING_DIRECTION = "Arriving to Pittsburgh";
+
+export type WindowEdge = "start" | "end";
+
+// How far one rider would have to move one edge of their window, and why
+// they can't when the move isn't possible.
+export type WindowStretch = {
+  edge: WindowEdge;
+  minutes: number;
+  error: string | null;
+};
+
+export type NearMatchStretches = {
+  gapMinutes: number;
+  trip: WindowStretch;
+  candidate: WindowStretch;
+};
+
+type StretchableTrip = {
+  direction: string;
+  window_start: string | null;
+  window_end: string | null;
+  min_hours_before?: number | null;
+  max_hours_before?: number | null;
+  window_shift_minutes?: number | null;
+};
+
+export const parseNearMatchGap = (value: string | null | undefined) => {
+  const fallback = Number(process.env.NEAR_MATCH_GAP_MINUTES) || DEFAULT_NEAR_MATCH_GAP_MINUTES;
+  const parsed = value ? Number(value) : fallback;
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    return Math.min(fallback, MAX_NEAR_MATCH_GAP_MINUTES);
+  }
+
+  return Math.min(parsed, MAX_NEAR_MATCH_GAP_MINUTES);
+};
+
+const getStretchError = (trip: StretchableTrip, edge: WindowEdge, minutes: number) => {
+  if (trip.direction === ARRIVING_DIRECTION) {
+    return edge === "start" ? "Pickup can't start before the flight lands." : null;
+  }
+
+  if (edge === "end" && (trip.min_hours_before ?? 0) * 60 < minutes) {
+    return "The ride would leave after the flight departs.";
+  }
+
+  return null;
+};
+
+const toStretch = (trip: StretchableTrip, edge: WindowEdge, minutes: number): WindowStretch => ({
+  edge,
+  minutes,
+  error: getStretchError(trip, edge, minutes)
+});
+
+// The earlier rider can stay later or the later rider can go earlier; either
+// closes the gap on its own.
+export const getNearMatchStretches = (
+  trip: StretchableTrip,
+  candidate: StretchableTrip
+): NearMatchStretches | null => {
+  const gapMinutes = getWindowGapMinutes(
+    trip.window_start,
+    trip.window_end,
+    candidate.window_start,
+    candidate.window_end
+  );
+
+  if (!gapMinutes) {
+    return null;
+  }
+
+  const tripIsEarlier = new Date(trip.window_end as string) < new Date(candidate.window_start as string);
+  return {
+    gapMinutes,
+    trip: toStretch(trip, tripIsEarlier ? "end" : "start", gapMinutes),
+    candidate: toStretch(candidate, tripIsEarlier ? "start" : "end", gapMinutes)
+  };
+};
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+// Trip columns for a window stretched by `minutes` at `edge`, keeping the
+// wait-until time or hours-before fields the trip form edits in step.
+export const extendTripWindow = (trip: StretchableTrip, edge: WindowEdge, minutes: number) => {
+  if (!trip.window_start || !trip.window_end) {
+    return null;
+  }
+
+  if (edge === "start") {
+    return {
+      window_start: addMinutes(new Date(trip.window_start), -minutes).toISOString(),
+      max_hours_before: roundHours((trip.max_hours_before ?? 0) + minutes / 60)
+    };
+  }
+
+  const windowEnd = addMinutes(new Date(trip.window_end), minutes);
+  if (trip.direction === ARRIVING_DIRECTION) {
+    const unshiftedEnd = addMinutes(windowEnd, -(trip.window_shift_minutes ?? 0));
+    return {
+      window_end: windowEnd.toISOString(),
+      willing_to_wait_until_time: toPittsburghDateTime(unshiftedEnd).time
+    };
+  }
+
+  return {
+    window_end: windowEnd.toISOString(),
+    min_hours_before: roundHours(Math.max((trip.min_hours_before ?? 0) - minutes / 60, 0))
+  };
+};
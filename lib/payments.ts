@@ -0,0 +1,105 @@
+import type { FareSplitMode } from "./fares";
+
+export const PAYMENT_APPS = ["venmo", "cashapp", "paypal"] as const;
+
+export type PaymentApp = (typeof PAYMENT_APPS)[number];
+
+// The payer's handles, as stored on their profile.
+export type PaymentHandles = {
+  venmo_username: string | null;
+  cashapp_cashtag: string | null;
+  paypal_username: string | null;
+};
+
+export type PaymentLink = {
+  app: PaymentApp;
+  label: string;
+  href: string;
+};
+
+// Mirrored by the check constraints on public.profiles.
+const PAYMENT_HANDLE_PATTERNS: Record<PaymentApp, RegExp> = {
+  venmo: /^[A-Za-z0-9_-]{5,30}$/,
+  cashapp: /^[A-Za-z][A-Za-z0-9]{0,19}$/,
+  paypal: /^[A-Za-z0-9]{1,20}$/
+};
+
+export const PAYMENT_APP_LABELS: Record<PaymentApp, string> = {
+  venmo: "Venmo",
+  cashapp: "Cash App",
+  paypal: "PayPal"
+};
+
+// Strips the "@" or "$" people tend to type in front of their handle.
+export const normalizePaymentHandle = (app: PaymentApp, value: string | null | undefined) => {
+  const handle = (value ?? "").trim().replace(/^[@$]/, "");
+  if (!handle) {
+    return { handle: null };
+  }
+
+  if (!PAYMENT_HANDLE_PATTERNS[app].test(handle)) {
+    return { handle: null, error: `Please enter a valid ${PAYMENT_APP_LABELS[app]} username.` };
+  }
+
+  return { handle };
+};
+
+// Cash App and PayPal links carry the amount but have no memo field, so the
+// memo only reaches Venmo.
+export const getPaymentLinks = (
+  handles: Partial<PaymentHandles> | null | undefined,
+  amount: number,
+  memo: string
+): PaymentLink[] => {
+  const fixedAmount = amount.toFixed(2);
+  const links: PaymentLink[] = [];
+
+  if (handles?.venmo_username) {
+    const query = new URLSearchParams({
+      txn: "pay",
+      audience: "private",
+      recipients: handles.venmo_username,
+      amount: fixedAmount,
+      note: memo
+    });
+    links.push({ app: "venmo", label: "Pay with Venmo", href: `https://venmo.com/?${query}` });
+  }
+
+  if (handles?.cashapp_cashtag) {
+    links.push({
+      app: "cashapp",
+      label: "Pay with Cash App",
+      href: `https://cash.app/$${encodeURIComponent(handles.cashapp_cashtag)}/${fixedAmount}`
+    });
+  }
+
+  if (handles?.paypal_username) {
+    links.push({
+      app: "paypal",
+      label: "Pay with PayPal",
+      href: `https://www.paypal.com/paypalme/${encodeURIComponent(handles.paypal_username)}/${fixedAmount}USD`
+    });
+  }
+
+  return links;
+};
+
+export type PoolExpenseShare = {
+  trip_id: string;
+  amount: number;
+  paid_at: string | null;
+};
+
+// A pool's recorded fare as returned by app/api/trips/[id]/matches.
+export type PoolExpense = {
+  id: string;
+  pool_id: string;
+  payer_trip_id: string;
+  amount: number;
+  split_mode: FareSplitMode;
+  receipt_path: string | null;
+  receipt_url: string | null;
+  updated_at: string;
+  shares: PoolExpenseShare[];
+  payer_payment_handles: PaymentHandles;
+};
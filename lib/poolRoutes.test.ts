@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { formatPoolRoute, getTripDetourMiles, planPoolRoute } from "./poolRoutes";
+
+const ARRIVING = "Arriving to Pittsburgh";
+const DEPARTING = "Departing from Pittsburgh";
+
+const trips = [
+  { id: "cut", campus_location: "cmu-cut" },
+  { id: "mill", campus_location: "cmu-mill-19" },
+  { id: "friendship", campus_location: "friendship" }
+];
+
+const summarize = (direction: string, routeTrips = trips) =>
+  planPoolRoute(direction, routeTrips).stops.map((stop) => ({
+    code: stop.location.code,
+    tripIds: stop.tripIds,
+    rideMiles: stop.rideMiles,
+    detourMiles: stop.detourMiles
+  }));
+
+describe("planPoolRoute", () => {
+  it("tries every stop order for the shortest route", () => {
+    // Going to the nearest stop first (The Cut) would take 25.1 miles.
+    const route = planPoolRoute(ARRIVING, trips);
+
+    expect(route.totalMiles).toBe(23.1);
+    expect(summarize(ARRIVING)).toEqual([
+      { code: "friendship", tripIds: ["friendship"], rideMiles: 18, detourMiles: 0 },
+      { code: "cmu-cut", tripIds: ["cut"], rideMiles: 19.9, detourMiles: 1.9 },
+      { code: "cmu-mill-19", tripIds: ["mill"], rideMiles: 23.1, detourMiles: 4.6 }
+    ]);
+  });
+
+  it("finds the same route whatever order the trips come in", () => {
+    expect(summarize(ARRIVING, [...trips].reverse())).toEqual(summarize(ARRIVING));
+  });
+
+  it("picks up departures in reverse so the car ends at PIT", () => {
+    expect(summarize(DEPARTING).map(({ code }) => code)).toEqual([
+      "cmu-mill-19",
+      "cmu-cut",
+      "friendship"
+    ]);
+    expect(summarize(DEPARTING)[0].rideMiles).toBe(23.1);
+  });
+
+  it("shares a stop between trips at the same location and defaults to The Cut", () => {
+    const route = planPoolRoute(ARRIVING, [
+      { id: "a", campus_location: "cmu-cut" },
+      { id: "b", campus_location: null }
+    ]);
+
+    expect(route.stops).toHaveLength(1);
+    expect(route.stops[0].tripIds).toEqual(["a", "b"]);
+    expect(route.totalMiles).toBe(18);
+  });
+});
+
+describe("getTripDetourMiles", () => {
+  it("reads a trip's detour from its stop", () => {
+    const route = planPoolRoute(ARRIVING, trips);
+
+    expect(getTripDetourMiles(route, "friendship")).toBe(0);
+    expect(getTripDetourMiles(route, "mill")).toBe(4.6);
+    expect(getTripDetourMiles(route, "missing")).toBe(0);
+  });
+});
+
+describe("formatPoolRoute", () => {
+  it("starts arrivals and ends departures at PIT", () => {
+    expect(formatPoolRoute(ARRIVING, planPoolRoute(ARRIVING, trips))).toBe(
+      "PIT → Friendship → CMU – The Cut → CMU – Mill 19"
+    );
+    expect(formatPoolRoute(DEPARTING, planPoolRoute(DEPARTING, trips))).toBe(
+      "CMU – Mill 19 → CMU – The Cut → Friendship → PIT"
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  PIT_LOCATION_CODE,
+  getDrivingMiles,
+  getTripCampusLocation,
+  type CampusLocation
+} from "./campusLocations";
+
+export type RoutableTrip = {
+  id: string;
+  campus_location?: string | null;
+};
+
+// One campus stop. rideMiles is how far its riders spend in the car between
+// PIT and this stop along the route; detourMiles is how much longer that is
+// than riding there directly.
+export type PoolStop = {
+  location: CampusLocation;
+  tripIds: string[];
+  rideMiles: number;
+  directMiles: number;
+  detourMiles: number;
+};
+
+export type PoolRoute = {
+  stops: PoolStop[];
+  totalMiles: number;
+};
+
+// Pools rarely have more than a few distinct stops, so every order is tried.
+const MAX_EXHAUSTIVE_STOPS = 6;
+
+const roundMiles = (miles: number) => Math.round(miles * 10) / 10;
+
+const getPathMiles = (codes: string[]) => {
+  return codes.reduce(
+    (total, code, index) => total + getDrivingMiles(index === 0 ? PIT_LOCATION_CODE : codes[index - 1], code),
+    0
+  );
+};
+
+const getPermutations = (codes: string[]): string[][] => {
+  if (codes.length <= 1) {
+    return [codes];
+  }
+
+  return codes.flatMap((code, index) =>
+    getPermutations([...codes.slice(0, index), ...codes.slice(index + 1)]).map((rest) => [
+      code,
+      ...rest
+    ])
+  );
+};
+
+const orderNearestFirst = (codes: string[]) => {
+  const remaining = [...codes];
+  const ordered: string[] = [];
+  let current = PIT_LOCATION_CODE;
+
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    remaining.forEach((code, index) => {
+      if (getDrivingMiles(current, code) < getDrivingMiles(current, remaining[nearestIndex])) {
+        nearestIndex = index;
+      }
+    });
+    [current] = remaining.splice(nearestIndex, 1);
+    ordered.push(current);
+  }
+
+  return ordered;
+};
+
+// Shortest order of stops leaving PIT. Arrivals drop off in this order;
+// departures pick up in reverse so the car finishes at the airport.
+const orderStopsFromPit = (codes: string[]) => {
+  if (codes.length > MAX_EXHAUSTIVE_STOPS) {
+    return orderNearestFirst(codes);
+  }
+
+  return getPermutations(codes).reduce((best, order) =>
+    getPathMiles(order) < getPathMiles(best) ? order : best
+  );
+};
+
+export const planPoolRoute = (direction: string, trips: RoutableTrip[]): PoolRoute => {
+  const tripIdsByCode = new Map<string, string[]>();
+  trips.forEach((trip) => {
+    const { code } = getTripCampusLocation(trip.campus_location);
+    tripIdsByCode.set(code, [...(tripIdsByCode.get(code) ?? []), trip.id]);
+  });
+
+  let rideMiles = 0;
+  let previousCode = PIT_LOCATION_CODE;
+  const stopsFromPit = orderStopsFromPit(Array.from(tripIdsByCode.keys())).map((code) => {
+    rideMiles += getDrivingMiles(previousCode, code);
+    previousCode = code;
+    const directMiles = getDrivingMiles(PIT_LOCATION_CODE, code);
+    return {
+      location: getTripCampusLocation(code),
+      tripIds: tripIdsByCode.get(code) ?? [],
+      rideMiles: roundMiles(rideMiles),
+      directMiles,
+      detourMiles: roundMiles(Math.max(rideMiles - directMiles, 0))
+    };
+  });
+
+  return {
+    stops: direction === "Arriving to Pittsburgh" ? stopsFromPit : [...stopsFromPit].reverse(),
+    totalMiles: roundMiles(rideMiles)
+  };
+};
+
+// Extra miles a trip's riders travel because of the shared route.
+export const getTripDetourMiles = (route: PoolRoute, tripId: string) => {
+  return route.stops.find((stop) => stop.tripIds.includes(tripId))?.detourMiles ?? 0;
+};
+
+// "PIT → Downtown → Shadyside" for arrivals, reversed for departures.
+export const formatPoolRoute = (direction: string, route: PoolRoute) => {
+  const names = route.stops.map((stop) => stop.location.name);
+  return direction === "Arriving to Pittsburgh"
+    ? [PIT_LOCATION_CODE, ...names].join(" → ")
+    : [...names, PIT_LOCATION_CODE].join(" → ");
+};
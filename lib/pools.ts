@@ -0,0 +1,108 @@
+export const VEHICLE_CLASSES = ["standard", "xl", "van"] as const;
+
+export type VehicleClass = (typeof VEHICLE_CLASSES)[number];
+
+export type VehicleLimits = {
+  label: string;
+  examples: string;
+  seats: number;
+  checked_bags: number;
+  carry_on_bags: number;
+};
+
+// Mirrored by public.vehicle_class_limits in supabase/migrations.
+export const VEHICLE_LIMITS: Record<VehicleClass, VehicleLimits> = {
+  standard: {
+    label: "Standard",
+    examples: "UberX, Lyft",
+    seats: 4,
+    checked_bags: 2,
+    carry_on_bags: 4
+  },
+  xl: { label: "XL", examples: "UberXL, Lyft XL", seats: 6, checked_bags: 4, carry_on_bags: 6 },
+  van: { label: "Van", examples: "Uber Van, taxi van", seats: 6, checked_bags: 8, carry_on_bags: 8 }
+};
+
+// Leaves room for at least one more rider in the largest vehicle.
+export const MAX_PARTY_SIZE = 5;
+
+export type PoolStatus = "open" | "full";
+
+export type TripLoad = {
+  party_size: number;
+  checked_bags: number;
+  carry_on_bags: number;
+};
+
+export type PoolSummary = {
+  id: string;
+  direction: string;
+  flight_date: string;
+  organizer_trip_id: string | null;
+  booker_trip_id: string | null;
+  vehicle_class: VehicleClass;
+  status: PoolStatus;
+  member_trip_ids: string[];
+  load: TripLoad;
+};
+
+export const isVehicleClass = (value: unknown): value is VehicleClass => {
+  return VEHICLE_CLASSES.includes(value as VehicleClass);
+};
+
+export const toTripLoad = (trip: Partial<TripLoad> | null | undefined): TripLoad => ({
+  party_size: trip?.party_size ?? 1,
+  checked_bags: trip?.checked_bags ?? 0,
+  carry_on_bags: trip?.carry_on_bags ?? 0
+});
+
+export const sumTripLoads = (loads: Partial<TripLoad>[]): TripLoad => {
+  return loads.map(toTripLoad).reduce(
+    (total, load) => ({
+      party_size: total.party_size + load.party_size,
+      checked_bags: total.checked_bags + load.checked_bags,
+      carry_on_bags: total.carry_on_bags + load.carry_on_bags
+    }),
+    { party_size: 0, checked_bags: 0, carry_on_bags: 0 }
+  );
+};
+
+export const getVehicleFitError = (vehicleClass: VehicleClass, loads: Partial<TripLoad>[]) => {
+  const limits = VEHICLE_LIMITS[vehicleClass];
+  const total = sumTripLoads(loads);
+
+  if (total.party_size > limits.seats) {
+    return `${limits.label} vehicles only seat ${limits.seats} riders.`;
+  }
+
+  if (total.checked_bags > limits.checked_bags) {
+    return `${limits.label} vehicles only fit ${limits.checked_bags} checked bags.`;
+  }
+
+  if (total.carry_on_bags > limits.carry_on_bags) {
+    return `${limits.label} vehicles only fit ${limits.carry_on_bags} carry-on bags.`;
+  }
+
+  return null;
+};
+
+export const getSmallestVehicleClass = (loads: Partial<TripLoad>[]) => {
+  return VEHICLE_CLASSES.find((vehicleClass) => !getVehicleFitError(vehicleClass, loads)) ?? null;
+};
+
+export const getPoolSeatsLeft = (pool: PoolSummary) => {
+  return Math.max(VEHICLE_LIMITS[pool.vehicle_class].seats - pool.load.party_size, 0);
+};
+
+export const getPoolJoinError = (pool: PoolSummary, trip: Partial<TripLoad>) => {
+  return getVehicleFitError(pool.vehicle_class, [pool.load, trip]);
+};
+
+export const isPoolOrganizer = (pool: PoolSummary | null | undefined, tripId: string) => {
+  return Boolean(pool && pool.organizer_trip_id === tripId);
+};
+
+export const formatTripLoad = (load: Partial<TripLoad>) => {
+  const { party_size, checked_bags, carry_on_bags } = toTripLoad(load);
+  return `${party_size} ${party_size === 1 ? "rider" : "riders"} · ${checked_bags} checked · ${carry_on_bags} carry-on`;
+};
@@ -0,0 +1,116 @@
+import { getTripCampusLocation } from "./campusLocations";
+import { formatFlight } from "./flights";
+import { formatDateLong, formatTime12h } from "./time";
+
+const ARRIVING_DIRECTION = "Arriving to Pittsburgh";
+
+// Details the rider types in when they use a template.
+export type QuickReplyField = "carousel" | "door" | "minutes";
+
+export type QuickReplyTemplate = {
+  id: string;
+  label: string;
+  text: string;
+  fields: QuickReplyField[];
+  direction?: string;
+};
+
+export type QuickReplyTrip = {
+  direction: string;
+  flight_date: string;
+  flight_time: string;
+  airline_code: string | null;
+  flight_number: string | null;
+  campus_location: string | null;
+};
+
+export const QUICK_REPLY_FIELD_LABELS: Record<QuickReplyField, string> = {
+  carousel: "Carousel",
+  door: "Door",
+  minutes: "Minutes late"
+};
+
+export const QUICK_REPLY_FIELD_DEFAULTS: Record<QuickReplyField, string> = {
+  carousel: "",
+  door: "3",
+  minutes: "10"
+};
+
+// {date}, {time}, {flight} and {stop} come from the trip; the rest are fields.
+export const QUICK_REPLY_TEMPLATES: QuickReplyTemplate[] = [
+  {
+    id: "landed",
+    label: "I've landed",
+    text: "I've landed ({flight}) and I'm at baggage claim carousel {carousel}.",
+    fields: ["carousel"],
+    direction: ARRIVING_DIRECTION
+  },
+  {
+    id: "meet-arrivals-door",
+    label: "Meet at arrivals door",
+    text: "Let's meet at door {door} of arrivals, on the baggage claim level.",
+    fields: ["door"],
+    direction: ARRIVING_DIRECTION
+  },
+  {
+    id: "meet-at-stop",
+    label: "Meet at pick-up",
+    text: "Let's meet at {stop} on {date}. My flight ({flight}) leaves at {time}.",
+    fields: [],
+    direction: "Departing from Pittsburgh"
+  },
+  {
+    id: "running-late",
+    label: "Running late",
+    text: "Running about {minutes} min late. I'll message again when I'm close.",
+    fields: ["minutes"]
+  },
+  {
+    id: "book-car",
+    label: "I'll book the car",
+    text: "I'll book the car for {date} around {time} and share the driver details here.",
+    fields: []
+  },
+  {
+    id: "someone-else-books",
+    label: "Can you book?",
+    text: "Could you book the car this time? I'll pay you back my share.",
+    fields: []
+  }
+];
+
+export const getQuickReplyTemplates = (direction: string) => {
+  return QUICK_REPLY_TEMPLATES.filter(
+    (template) => !template.direction || template.direction === direction
+  );
+};
+
+export const getQuickReplyValues = (trip: QuickReplyTrip): Record<string, string> => ({
+  date: formatDateLong(trip.flight_date),
+  time: formatTime12h(trip.flight_time),
+  flight: formatFlight(trip) ?? `my ${formatTime12h(trip.flight_time)} flight`,
+  stop: getTripCampusLocation(trip.campus_location).name
+});
+
+// Returns the filled text plus any fields still left blank.
+export const fillQuickReply = (
+  template: QuickReplyTemplate,
+  trip: QuickReplyTrip,
+  fieldValues: Partial<Record<QuickReplyField, string>>
+) => {
+  const values: Record<string, string> = { ...getQuickReplyValues(trip) };
+  const missing: QuickReplyField[] = [];
+  template.fields.forEach((field) => {
+    const value = (fieldValues[field] ?? QUICK_REPLY_FIELD_DEFAULTS[field]).trim();
+    if (value) {
+      values[field] = value;
+    } else {
+      missing.push(field);
+    }
+  });
+
+  const text = template.text.replace(/\{(\w+)\}/g, (_placeholder, key: string) =>
+    key in values ? values[key] : "___"
+  );
+  return { text, missing };
+};
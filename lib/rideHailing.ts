@@ -0,0 +1,103 @@
+import { getTripCampusLocation } from "./campusLocations";
+import type { VehicleClass } from "./pools";
+
+export type RidePoint = {
+  lat: number;
+  lng: number;
+  nickname: string;
+};
+
+export type RideHailingLink = {
+  app: "uber" | "lyft";
+  label: string;
+  href: string;
+};
+
+const ARRIVING_DIRECTION = "Arriving to Pittsburgh";
+
+// Rideshare curbs at PIT's landside terminal.
+export const PIT_ARRIVALS_CURB: RidePoint = {
+  lat: 40.4958,
+  lng: -80.2426,
+  nickname: "PIT Arrivals (Baggage Claim rideshare curb)"
+};
+
+export const PIT_DEPARTURES_CURB: RidePoint = {
+  lat: 40.4961,
+  lng: -80.2421,
+  nickname: "PIT Departures (Ticketing curb)"
+};
+
+// Uber product ids are city-specific UUIDs from the Uber Products API, so they
+// come from the environment. Without one, the rider picks the vehicle in the app.
+const UBER_PRODUCT_IDS: Record<VehicleClass, string | undefined> = {
+  standard: process.env.NEXT_PUBLIC_UBER_PRODUCT_ID_STANDARD,
+  xl: process.env.NEXT_PUBLIC_UBER_PRODUCT_ID_XL,
+  van: process.env.NEXT_PUBLIC_UBER_PRODUCT_ID_VAN
+};
+
+// Lyft has no van class, so vans fall back to XL.
+const LYFT_RIDE_TYPES: Record<VehicleClass, string> = {
+  standard: "lyft",
+  xl: "lyft_xl",
+  van: "lyft_xl"
+};
+
+const UBER_PRODUCT_NAMES: Record<VehicleClass, string> = {
+  standard: "UberX",
+  xl: "UberXL",
+  van: "Uber Van"
+};
+
+// Arrivals go from the PIT curb to the campus location; departures the reverse.
+export const getPoolRidePoints = (direction: string, campusLocationCode: string | null | undefined) => {
+  const location = getTripCampusLocation(campusLocationCode);
+  const campus: RidePoint = { lat: location.lat, lng: location.lng, nickname: location.name };
+
+  return direction === ARRIVING_DIRECTION
+    ? { pickup: PIT_ARRIVALS_CURB, dropoff: campus }
+    : { pickup: campus, dropoff: PIT_DEPARTURES_CURB };
+};
+
+const toPointParams = (prefix: string, point: RidePoint, withNickname: boolean) => {
+  const params: [string, string][] = [
+    [`${prefix}[latitude]`, String(point.lat)],
+    [`${prefix}[longitude]`, String(point.lng)]
+  ];
+  return withNickname ? [...params, [`${prefix}[nickname]`, point.nickname] as [string, string]] : params;
+};
+
+export const getRideHailingLinks = (
+  pickup: RidePoint,
+  dropoff: RidePoint,
+  vehicleClass: VehicleClass
+): RideHailingLink[] => {
+  const uberParams = new URLSearchParams([
+    ["action", "setPickup"],
+    ...toPointParams("pickup", pickup, true),
+    ...toPointParams("dropoff", dropoff, true)
+  ]);
+  const uberProductId = UBER_PRODUCT_IDS[vehicleClass];
+  if (uberProductId) {
+    uberParams.set("product_id", uberProductId);
+  }
+
+  const lyftParams = new URLSearchParams([
+    ["id", LYFT_RIDE_TYPES[vehicleClass]],
+    ...toPointParams("pickup", pickup, false),
+    ...toPointParams("destination", dropoff, false)
+  ]);
+
+  return [
+    {
+      app: "uber",
+      label: `Open Uber (${UBER_PRODUCT_NAMES[vehicleClass]})`,
+      href: `https://m.uber.com/ul/?${uberParams}`
+    },
+    {
+      app: "lyft",
+      label: `Open Lyft (${LYFT_RIDE_TYPES[vehicleClass] === "lyft" ? "Lyft" : "Lyft XL"})`,
+      href: `https://lyft.com/ride?${lyftParams}`
+    }
+  ];
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { toPittsburghDateTime, toPittsburghInstant } from "./time";
+
+describe("toPittsburghInstant", () => {
+  it("converts wall times on ordinary days", () => {
+    expect(toPittsburghInstant("2026-07-01", "14:30").toISOString()).toBe(
+      "2026-07-01T18:30:00.000Z"
+    );
+    expect(toPittsburghInstant("2026-12-01", "14:30").toISOString()).toBe(
+      "2026-12-01T19:30:00.000Z"
+    );
+  });
+
+  it("pushes the skipped 02:30 on 2026-03-08 past the spring-forward gap", () => {
+    const instant = toPittsburghInstant("2026-03-08", "02:30");
+    expect(instant.toISOString()).toBe("2026-03-08T07:30:00.000Z");
+    expect(toPittsburghDateTime(instant)).toEqual({ date: "2026-03-08", time: "03:30" });
+  });
+
+  it("resolves the repeated 01:30 on 2026-11-01 to its first occurrence", () => {
+    const instant = toPittsburghInstant("2026-11-01", "01:30");
+    expect(instant.toISOString()).toBe("2026-11-01T05:30:00.000Z");
+    expect(toPittsburghDateTime(instant)).toEqual({ date: "2026-11-01", time: "01:30" });
+  });
+
+  it("returns an invalid date for malformed input", () => {
+    expect(Number.isNaN(toPittsburghInstant("", "10:00").getTime())).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+export const PITTSBURGH_TIME_ZONE = "America/New_York";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const zonedPartsFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: PITTSBURGH_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23"
+});
+
+const readZonedParts = (instant: Date) => {
+  const parts: Record<string, number> = {};
+  zonedPartsFormatter.formatToParts(instant).forEach((part) => {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export const getPittsburghOffsetMinutes = (instant: Date) => {
+  const parts = readZonedParts(instant);
+  const wallMillis = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const instantMillis = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallMillis - instantMillis) / MINUTE_MS);
+};
+
+export const toPittsburghInstant = (dateValue: string, timeValue: string) => {
+  const [year, month, day] = dateValue.split("-").map(Number);
+  const [hour, minute = 0] = timeValue.split(":").map(Number);
+
+  if (!year || !month || !day || Number.isNaN(hour) || Number.isNaN(minute)) {
+    return new Date("invalid");
+  }
+
+  const wallMillis = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetBefore = getPittsburghOffsetMinutes(new Date(wallMillis - 12 * HOUR_MS));
+  const offsetAfter = getPittsburghOffsetMinutes(new Date(wallMillis + 12 * HOUR_MS));
+
+  // A wall time that occurs twice (fall back) resolves to its first occurrence.
+  const matches = [offsetBefore, offsetAfter]
+    .map((offset) => wallMillis - offset * MINUTE_MS)
+    .filter((instantMillis) => {
+      const candidate = new Date(instantMillis);
+      return wallMillis - getPittsburghOffsetMinutes(candidate) * MINUTE_MS === instantMillis;
+    })
+    .sort((a, b) => a - b);
+
+  if (matches.length > 0) {
+    return new Date(matches[0]);
+  }
+
+  // A wall time that never occurs (spring forward) is pushed past the gap, so 2:30 AM becomes 3:30 AM.
+  return new Date(wallMillis - offsetBefore * MINUTE_MS);
+};
+
+export const toPittsburghDateTime = (instant: Date) => {
+  const parts = readZonedParts(instant);
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`
+  };
+};
+
+export const addDaysToDate = (dateValue: string, days: number) => {
+  const [year, month, day] = dateValue.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+};
+
+export const addMinutes = (instant: Date, minutes: number) => {
+  return new Date(instant.getTime() + minutes * MINUTE_MS);
+};
+
+export const addHours = (instant: Date, hours: number) => {
+  return new Date(instant.getTime() + hours * HOUR_MS);
+};
+
+export const formatTime12h = (timeValue: string) => {
+  const [hourRaw, minuteRaw = "0"] = timeValue.split(":");
+  const hourNum = Number(hourRaw);
+  const minuteNum = Number(minuteRaw);
+
+  if (Number.isNaN(hourNum) || Number.isNaN(minuteNum)) {
+    return timeValue;
+  }
+
+  const period = hourNum >= 12 ? "PM" : "AM";
+  const normalizedHour = hourNum % 12 || 12;
+  const paddedMinute = minuteNum.toString().padStart(2, "0");
+  return `${normalizedHour}:${paddedMinute} ${period}`;
+};
+
+export const formatDateLong = (dateValue: string) => {
+  const [year, month, day] = dateValue.split("-").map(Number);
+  if (!year || !month || !day) {
+    return dateValue;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC"
+  });
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { findBrokenOverlaps, shiftTripWindow } from "./tripDelays";
+
+const trip = {
+  window_start: "2026-10-20T19:00:00.000Z",
+  window_end: "2026-10-20T20:00:00.000Z",
+  window_shift_minutes: 0
+};
+
+const partner = (id: string, windowStart: string, windowEnd: string) => ({
+  id,
+  user_email: `${id}@andrew.cmu.edu`,
+  window_start: windowStart,
+  window_end: windowEnd
+});
+
+describe("shiftTripWindow", () => {
+  it("moves both ends of the window by the delay", () => {
+    expect(shiftTripWindow(trip, 30)).toEqual({
+      window_start: "2026-10-20T19:30:00.000Z",
+      window_end: "2026-10-20T20:30:00.000Z",
+      window_shift_minutes: 30
+    });
+  });
+
+  it("only adds the difference from a delay already applied", () => {
+    const shifted = { ...trip, ...shiftTripWindow(trip, 30)! };
+
+    expect(shiftTripWindow(shifted, 45)).toEqual({
+      window_start: "2026-10-20T19:45:00.000Z",
+      window_end: "2026-10-20T20:45:00.000Z",
+      window_shift_minutes: 45
+    });
+    expect(shiftTripWindow(shifted, 0)).toEqual({ ...trip, window_shift_minutes: 0 });
+  });
+
+  it("is null when nothing moves", () => {
+    expect(shiftTripWindow(trip, 0)).toBeNull();
+    expect(shiftTripWindow({ ...trip, window_shift_minutes: 20 }, 20)).toBeNull();
+    expect(shiftTripWindow({ ...trip, window_start: null }, 30)).toBeNull();
+  });
+});
+
+describe("findBrokenOverlaps", () => {
+  const early = partner("early", "2026-10-20T18:00:00.000Z", "2026-10-20T19:15:00.000Z");
+  const late = partner("late", "2026-10-20T19:45:00.000Z", "2026-10-20T21:00:00.000Z");
+  const apart = partner("apart", "2026-10-20T23:00:00.000Z", "2026-10-20T23:30:00.000Z");
+
+  it("flags partners the shifted window no longer meets", () => {
+    const shifted = shiftTripWindow(trip, 30)!;
+
+    expect(findBrokenOverlaps(trip, shifted, [early, late, apart]).map(({ id }) => id)).toEqual([
+      "early"
+    ]);
+  });
+
+  it("keeps partners the shifted window still meets", () => {
+    const shifted = shiftTripWindow(trip, 10)!;
+
+    expect(findBrokenOverlaps(trip, shifted, [early, late])).toEqual([]);
+  });
+
+  it("ignores partners that never overlapped", () => {
+    const shifted = shiftTripWindow(trip, 240)!;
+
+    expect(findBrokenOverlaps(trip, shifted, [apart])).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail } from "./email";
+import { windowsOverlap } from "./matching";
+import { addMinutes } from "./time";
+
+export const MAX_REPORTED_DELAY_MINUTES = 12 * 60;
+
+const noBrokenTrips: string[] = [];
+
+type ShiftableTrip = {
+  window_start: string | null;
+  window_end: string | null;
+  window_shift_minutes: number | null;
+};
+
+type WindowedTrip = {
+  id: string;
+  user_email: string;
+  window_start: string | null;
+  window_end: string | null;
+};
+
+// Untyped clients infer every embed as a list, but a to-one embed like a
+// partner trip arrives as a single row, so both shapes are accepted.
+const firstEmbedded = <T>(embedded: T | T[] | null | undefined): T | null => {
+  return Array.isArray(embedded) ? embedded[0] ?? null : embedded ?? null;
+};
+
+// The window already includes window_shift_minutes, so only the difference
+// from the previously applied delay is added. Returns null when nothing moves.
+export const shiftTripWindow = (trip: ShiftableTrip, delayMinutes: number) => {
+  const appliedMinutes = trip.window_shift_minutes ?? 0;
+  const deltaMinutes = delayMinutes - appliedMinutes;
+
+  if (deltaMinutes === 0 || !trip.window_start || !trip.window_end) {
+    return null;
+  }
+
+  return {
+    window_start: addMinutes(new Date(trip.window_start), deltaMinutes).toISOString(),
+    window_end: addMinutes(new Date(trip.window_end), deltaMinutes).toISOString(),
+    window_shift_minutes: delayMinutes
+  };
+};
+
+// Partners that overlapped the old window but not the shifted one.
+export const findBrokenOverlaps = <T extends WindowedTrip>(
+  before: Pick<WindowedTrip, "window_start" | "window_end">,
+  after: Pick<WindowedTrip, "window_start" | "window_end">,
+  partners: T[]
+) => {
+  return partners.filter(
+    (partner) =>
+      windowsOverlap(before.window_start, before.window_end, partner.window_start, partner.window_end) &&
+      !windowsOverlap(after.window_start, after.window_end, partner.window_start, partner.window_end)
+  );
+};
+
+const notifyBrokenPoolOverlap = async (
+  partner: WindowedTrip,
+  partnerName: string | null,
+  riderName: string | null,
+  delayMinutes: number
+) => {
+  const subject = "⏰ A pool member's flight is delayed";
+  const body = `Hi ${partnerName || "there"},\n\n${riderName || "A rider in your TartanTrips pool"}'s flight is now running ${delayMinutes} minutes late, and their pickup window no longer overlaps yours.\n\nLog in to TartanTrips to check in with your pool and decide whether to keep riding together.\n\n— TartanTrips\n`;
+
+  return sendEmail({ to: partner.user_email, subject, text: body });
+};
+
+// Records a delay on a trip, shifts its window by it and emails pool members
+// whose overlap with the trip is broken by the shift.
+export const applyTripDelay = async (
+  supabaseAdmin: SupabaseClient,
+  tripId: string,
+  delayMinutes: number
+) => {
+  const { data: trip, error: tripError } = await supabaseAdmin
+    .from("trips")
+    .select("id,user_email,window_start,window_end,window_shift_minutes")
+    .eq("id", tripId)
+    .single();
+
+  if (tripError || !trip) {
+    return { error: tripError?.message || "Trip not found", brokenTripIds: noBrokenTrips };
+  }
+
+  const shifted = shiftTripWindow(trip, delayMinutes);
+  const { error: updateError } = await supabaseAdmin
+    .from("trips")
+    .update({ flight_delay_minutes: delayMinutes, ...(shifted ?? {}) })
+    .eq("id", trip.id);
+
+  if (updateError) {
+    return { error: updateError.message, brokenTripIds: noBrokenTrips };
+  }
+
+  if (!shifted) {
+    return { error: null, brokenTripIds: noBrokenTrips };
+  }
+
+  const { data: relationRows, error: relationsError } = await supabaseAdmin
+    .from("match_requests")
+    .select("matched_trip_id,trips!matched_trip_id(id,user_email,window_start,window_end)")
+    .eq("trip_id", trip.id);
+
+  if (relationsError) {
+    return { error: relationsError.message, brokenTripIds: noBrokenTrips };
+  }
+
+  const partners: WindowedTrip[] = (relationRows ?? []).flatMap((row) => {
+    const partner = firstEmbedded(row.trips);
+    return partner
+      ? [
+          {
+            id: partner.id,
+            user_email: partner.user_email,
+            window_start: partner.window_start,
+            window_end: partner.window_end
+          }
+        ]
+      : [];
+  });
+  const broken = findBrokenOverlaps(trip, shifted, partners);
+
+  const { data: membership } = await supabaseAdmin
+    .from("pool_members")
+    .select("pool_id")
+    .eq("trip_id", trip.id)
+    .maybeSingle();
+
+  const { data: poolRows } = membership
+    ? await supabaseAdmin.from("pool_members").select("trip_id").eq("pool_id", membership.pool_id)
+    : { data: [] };
+  const poolTripIds = new Set((poolRows ?? []).map((row) => row.trip_id));
+  const brokenPoolMembers = broken.filter((partner) => poolTripIds.has(partner.id));
+
+  if (brokenPoolMembers.length > 0) {
+    const { data: profileRows } = await supabaseAdmin
+      .from("profiles")
+      .select("email,name")
+      .in("email", [trip.user_email, ...brokenPoolMembers.map((partner) => partner.user_email)]);
+    const names = new Map((profileRows ?? []).map((row) => [row.email, row.name]));
+
+    for (const partner of brokenPoolMembers) {
+      await notifyBrokenPoolOverlap(
+        partner,
+        names.get(partner.user_email) ?? null,
+        names.get(trip.user_email) ?? null,
+        delayMinutes
+      );
+    }
+  }
+
+  return { error: null, brokenTripIds: broken.map((partner) => partner.id) };
+};
@@ -0,0 +1,70 @@
+-- One row per directed trip-to-trip match relationship, replacing the
+-- match_email_N / match_status_N slot columns on trips.
+create table if not exists public.match_requests (
+  id uuid primary key default gen_random_uuid(),
+  trip_id uuid not null references public.trips (id) on delete cascade,
+  matched_trip_id uuid not null references public.trips (id) on delete cascade,
+  status text not null check (
+    status in ('request_sent', 'request_received', 'partner_approval_needed', 'matched')
+  ),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (trip_id, matched_trip_id),
+  check (trip_id <> matched_trip_id)
+);
+
+create index if not exists match_requests_matched_trip_id_idx
+  on public.match_requests (matched_trip_id);
+
+-- Backfill: slots stored the other rider's email, so resolve it to their trip
+-- in the same direction on the same date.
+insert into public.match_requests (trip_id, matched_trip_id, status)
+select source.id, target.id, slots.status
+from public.trips as source
+cross join lateral (
+  values
+    (source.match_email_0, source.match_status_0),
+    (source.match_email_1, source.match_status_1),
+    (source.match_email_2, source.match_status_2),
+    (source.match_email_3, source.match_status_3),
+    (source.match_email_4, source.match_status_4),
+    (source.match_email_5, source.match_status_5)
+) as slots (email, status)
+join public.trips as target
+  on target.user_email = slots.email
+  and target.direction = source.direction
+  and target.flight_date = source.flight_date
+  and target.id <> source.id
+where slots.email is not null
+  and slots.status in ('request_sent', 'request_received', 'partner_approval_needed', 'matched')
+on conflict (trip_id, matched_trip_id) do nothing;
+
+alter table public.trips
+  drop column if exists match_email_0,
+  drop column if exists match_email_1,
+  drop column if exists match_email_2,
+  drop column if exists match_email_3,
+  drop column if exists match_email_4,
+  drop column if exists match_email_5,
+  drop column if exists match_status_0,
+  drop column if exists match_status_1,
+  drop column if exists match_status_2,
+  drop column if exists match_status_3,
+  drop column if exists match_status_4,
+  drop column if exists match_status_5;
+
+-- Riders may read relationships for their own trips; all writes go through
+-- the service role in app/api/match-requests.
+alter table public.match_requests enable row level security;
+
+create policy "Riders can read match requests for their trips"
+  on public.match_requests
+  for select
+  using (
+    exists (
+      select 1
+      from public.trips
+      where trips.id = match_requests.trip_id
+        and trips.user_email = auth.jwt() ->> 'email'
+    )
+  );
@@ -0,0 +1,332 @@
+-- Each match action runs as one database function so it either applies to
+-- every involved trip or not at all. Missing relationships raise P0002,
+-- which app/api/match-requests maps to a 404, and relationships that changed
+-- since the caller looked raise P0006, which it maps to a 409.
+
+create or replace function public.match_request_status(p_trip_id uuid, p_matched_trip_id uuid)
+returns text
+language sql
+stable
+as $$
+  select status
+  from public.match_requests
+  where trip_id = p_trip_id
+    and matched_trip_id = p_matched_trip_id;
+$$;
+
+create or replace function public.match_request_set(
+  p_trip_id uuid,
+  p_matched_trip_id uuid,
+  p_status text
+)
+returns void
+language sql
+as $$
+  insert into public.match_requests (trip_id, matched_trip_id, status)
+  values (p_trip_id, p_matched_trip_id, p_status)
+  on conflict (trip_id, matched_trip_id)
+  do update set status = excluded.status, updated_at = now();
+$$;
+
+create or replace function public.match_request_clear(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language sql
+as $$
+  delete from public.match_requests
+  where trip_id = p_trip_id
+    and matched_trip_id = p_matched_trip_id;
+$$;
+
+create or replace function public.match_request_lock(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language sql
+as $$
+  select 1
+  from public.trips
+  where id in (p_trip_id, p_matched_trip_id)
+  order by id
+  for update;
+$$;
+
+-- Checked after match_request_lock, so an action based on a stale read can't
+-- overwrite a relationship that changed in the meantime.
+create or replace function public.match_request_expect(
+  p_trip_id uuid,
+  p_matched_trip_id uuid,
+  p_trip_status text,
+  p_match_status text
+)
+returns void
+language plpgsql
+stable
+as $$
+begin
+  if public.match_request_status(p_trip_id, p_matched_trip_id) is distinct from p_trip_status
+    or public.match_request_status(p_matched_trip_id, p_trip_id) is distinct from p_match_status then
+    raise exception 'This match changed. Please refresh and try again.' using errcode = 'P0006';
+  end if;
+end;
+$$;
+
+-- The rider who asked an existing partner (the approver) to approve a
+-- candidate: matched with the approver and awaiting approval for the candidate.
+create or replace function public.match_request_approval_requester(
+  p_approver_trip_id uuid,
+  p_candidate_trip_id uuid
+)
+returns uuid
+language sql
+stable
+as $$
+  select requester.trip_id
+  from public.match_requests as requester
+  where requester.matched_trip_id = p_approver_trip_id
+    and requester.status = 'matched'
+    and public.match_request_status(requester.trip_id, p_candidate_trip_id) = 'partner_approval_needed'
+  limit 1;
+$$;
+
+create or replace function public.match_request_clear_partner_approvals(
+  p_trip_id uuid,
+  p_candidate_trip_id uuid
+)
+returns void
+language sql
+as $$
+  delete from public.match_requests
+  where matched_trip_id = p_candidate_trip_id
+    and status = 'partner_approval_needed'
+    and trip_id in (
+      select matched_trip_id
+      from public.match_requests
+      where trip_id = p_trip_id
+        and status = 'matched'
+    );
+$$;
+
+create or replace function public.match_request_send(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+  perform public.match_request_expect(p_trip_id, p_matched_trip_id, null, null);
+  perform public.match_request_set(p_trip_id, p_matched_trip_id, 'request_sent');
+  perform public.match_request_set(p_matched_trip_id, p_trip_id, 'request_received');
+end;
+$$;
+
+create or replace function public.match_request_withdraw(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  if public.match_request_status(p_trip_id, p_matched_trip_id) is null
+    or public.match_request_status(p_matched_trip_id, p_trip_id) is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+  perform public.match_request_clear(p_matched_trip_id, p_trip_id);
+  perform public.match_request_clear_partner_approvals(p_trip_id, p_matched_trip_id);
+end;
+$$;
+
+create or replace function public.match_request_accept(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_trip_status text;
+  v_match_status text;
+  v_requester uuid;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  v_trip_status := public.match_request_status(p_trip_id, p_matched_trip_id);
+  v_match_status := public.match_request_status(p_matched_trip_id, p_trip_id);
+
+  if v_trip_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  -- An existing partner approving a newcomer to their pool.
+  if v_trip_status = 'partner_approval_needed'
+    and v_match_status is distinct from 'partner_approval_needed' then
+    perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+
+    v_requester := public.match_request_approval_requester(p_trip_id, p_matched_trip_id);
+    if v_requester is null then
+      return;
+    end if;
+
+    if not exists (
+      select 1
+      from public.match_requests as pending
+      where pending.matched_trip_id = p_matched_trip_id
+        and pending.status = 'partner_approval_needed'
+        and pending.trip_id in (
+          select matched_trip_id
+          from public.match_requests
+          where trip_id = v_requester
+            and status = 'matched'
+        )
+    )
+      and public.match_request_status(v_requester, p_matched_trip_id) is not null
+      and public.match_request_status(p_matched_trip_id, v_requester) is not null then
+      perform public.match_request_set(v_requester, p_matched_trip_id, 'matched');
+      perform public.match_request_set(p_matched_trip_id, v_requester, 'matched');
+    end if;
+
+    return;
+  end if;
+
+  if v_match_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+    from public.match_requests
+    where trip_id = p_matched_trip_id
+      and status = 'matched'
+  ) then
+    perform public.match_request_set(p_trip_id, p_matched_trip_id, 'partner_approval_needed');
+    perform public.match_request_set(p_matched_trip_id, p_trip_id, 'partner_approval_needed');
+
+    insert into public.match_requests (trip_id, matched_trip_id, status)
+    select matched_trip_id, p_trip_id, 'partner_approval_needed'
+    from public.match_requests
+    where trip_id = p_matched_trip_id
+      and status = 'matched'
+      and matched_trip_id <> p_trip_id
+    on conflict (trip_id, matched_trip_id)
+    do update set status = excluded.status, updated_at = now();
+
+    return;
+  end if;
+
+  perform public.match_request_set(p_trip_id, p_matched_trip_id, 'matched');
+  perform public.match_request_set(p_matched_trip_id, p_trip_id, 'matched');
+end;
+$$;
+
+create or replace function public.match_request_deny(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_trip_status text;
+  v_match_status text;
+  v_requester uuid;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  v_trip_status := public.match_request_status(p_trip_id, p_matched_trip_id);
+  v_match_status := public.match_request_status(p_matched_trip_id, p_trip_id);
+
+  if v_trip_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  -- An existing partner turning down a newcomer to their pool.
+  if v_trip_status = 'partner_approval_needed'
+    and v_match_status is distinct from 'partner_approval_needed' then
+    perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+
+    v_requester := public.match_request_approval_requester(p_trip_id, p_matched_trip_id);
+    if v_requester is not null then
+      perform public.match_request_clear(v_requester, p_matched_trip_id);
+      perform public.match_request_clear(p_matched_trip_id, v_requester);
+      perform public.match_request_clear_partner_approvals(v_requester, p_matched_trip_id);
+    end if;
+
+    return;
+  end if;
+
+  if v_match_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+  perform public.match_request_clear(p_matched_trip_id, p_trip_id);
+end;
+$$;
+
+create or replace function public.match_request_remove(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  if public.match_request_status(p_trip_id, p_matched_trip_id) is null
+    or public.match_request_status(p_matched_trip_id, p_trip_id) is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+  perform public.match_request_clear(p_matched_trip_id, p_trip_id);
+end;
+$$;
+
+-- Relationships whose reverse row is missing or disagrees. A one-sided
+-- partner_approval_needed row is expected while an existing partner is
+-- being asked to approve a newcomer, so only flag it when no requester exists.
+create or replace function public.find_asymmetric_match_requests()
+returns table (
+  trip_id uuid,
+  matched_trip_id uuid,
+  status text,
+  reverse_status text,
+  expected_reverse_status text
+)
+language sql
+stable
+as $$
+  select
+    forward.trip_id,
+    forward.matched_trip_id,
+    forward.status,
+    reverse.status as reverse_status,
+    case forward.status
+      when 'request_sent' then 'request_received'
+      when 'request_received' then 'request_sent'
+      else forward.status
+    end as expected_reverse_status
+  from public.match_requests as forward
+  left join public.match_requests as reverse
+    on reverse.trip_id = forward.matched_trip_id
+    and reverse.matched_trip_id = forward.trip_id
+  where
+    case
+      when forward.status = 'partner_approval_needed' and reverse.status is null then
+        public.match_request_approval_requester(forward.trip_id, forward.matched_trip_id) is null
+      else reverse.status is distinct from (
+        case forward.status
+          when 'request_sent' then 'request_received'
+          when 'request_received' then 'request_sent'
+          else forward.status
+        end
+      )
+    end
+  order by forward.trip_id, forward.matched_trip_id;
+$$;
+
+revoke execute on function
+  public.match_request_status(uuid, uuid),
+  public.match_request_set(uuid, uuid, text),
+  public.match_request_clear(uuid, uuid),
+  public.match_request_lock(uuid, uuid),
+  public.match_request_expect(uuid, uuid, text, text),
+  public.match_request_approval_requester(uuid, uuid),
+  public.match_request_clear_partner_approvals(uuid, uuid),
+  public.match_request_send(uuid, uuid),
+  public.match_request_withdraw(uuid, uuid),
+  public.match_request_accept(uuid, uuid),
+  public.match_request_deny(uuid, uuid),
+  public.match_request_remove(uuid, uuid),
+  public.find_asymmetric_match_requests()
+from public, anon, authenticated;
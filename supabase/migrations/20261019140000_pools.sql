@@ -0,0 +1,451 @@
+-- Pools are the riders sharing one car. Every member is matched with every
+-- other member in match_requests, and a trip belongs to at most one pool.
+create table if not exists public.pools (
+  id uuid primary key default gen_random_uuid(),
+  direction text not null,
+  flight_date date not null,
+  organizer_trip_id uuid references public.trips (id) on delete set null,
+  capacity integer not null default 6 check (capacity between 2 and 6),
+  status text not null default 'open' check (status in ('open', 'full')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.pool_members (
+  pool_id uuid not null references public.pools (id) on delete cascade,
+  trip_id uuid not null unique references public.trips (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (pool_id, trip_id)
+);
+
+-- Whether the signed-in rider has a trip in the pool. Runs as the owner so
+-- the pool_members policy can use it without checking itself.
+create or replace function public.pool_is_member(p_pool_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.pool_members
+    join public.trips on trips.id = pool_members.trip_id
+    where pool_members.pool_id = p_pool_id
+      and trips.user_email = auth.jwt() ->> 'email'
+  );
+$$;
+
+-- Riders may read the pools they belong to; all writes go through the
+-- service role.
+alter table public.pools enable row level security;
+alter table public.pool_members enable row level security;
+
+create policy "Riders can read their pools"
+  on public.pools
+  for select
+  to authenticated
+  using (public.pool_is_member(id));
+
+create policy "Riders can read members of their pools"
+  on public.pool_members
+  for select
+  to authenticated
+  using (public.pool_is_member(pool_id));
+
+create or replace function public.pool_for_trip(p_trip_id uuid)
+returns uuid
+language sql
+stable
+as $$
+  select pool_id from public.pool_members where trip_id = p_trip_id;
+$$;
+
+create or replace function public.pool_refresh_status(p_pool_id uuid)
+returns void
+language sql
+as $$
+  update public.pools
+  set
+    status = case
+      when (select count(*) from public.pool_members where pool_id = p_pool_id) >= capacity then 'full'
+      else 'open'
+    end,
+    updated_at = now()
+  where id = p_pool_id;
+$$;
+
+create or replace function public.pool_add_member(p_pool_id uuid, p_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_capacity integer;
+  v_size integer;
+  v_member uuid;
+begin
+  select capacity into v_capacity from public.pools where id = p_pool_id for update;
+  select count(*) into v_size from public.pool_members where pool_id = p_pool_id;
+
+  if v_size >= v_capacity then
+    raise exception 'Pool is full' using errcode = 'P0004';
+  end if;
+
+  for v_member in
+    select trip_id from public.pool_members where pool_id = p_pool_id
+  loop
+    perform public.match_request_set(v_member, p_trip_id, 'matched');
+    perform public.match_request_set(p_trip_id, v_member, 'matched');
+  end loop;
+
+  insert into public.pool_members (pool_id, trip_id) values (p_pool_id, p_trip_id);
+  perform public.pool_refresh_status(p_pool_id);
+end;
+$$;
+
+-- Called once two trips are confirmed with each other: starts a pool for two
+-- unpooled trips or adds the newcomer to the other trip's pool.
+create or replace function public.pool_link(p_trip_id uuid, p_matched_trip_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_trip_pool uuid := public.pool_for_trip(p_trip_id);
+  v_match_pool uuid := public.pool_for_trip(p_matched_trip_id);
+  v_pool uuid;
+begin
+  if v_trip_pool is not null and v_match_pool is not null then
+    if v_trip_pool <> v_match_pool then
+      raise exception 'Both trips are already in different pools' using errcode = 'P0003';
+    end if;
+    return v_trip_pool;
+  end if;
+
+  if v_trip_pool is not null then
+    perform public.pool_add_member(v_trip_pool, p_matched_trip_id);
+    return v_trip_pool;
+  end if;
+
+  if v_match_pool is not null then
+    perform public.pool_add_member(v_match_pool, p_trip_id);
+    return v_match_pool;
+  end if;
+
+  insert into public.pools (direction, flight_date, organizer_trip_id)
+  select direction, flight_date, p_trip_id
+  from public.trips
+  where id = p_trip_id
+  returning id into v_pool;
+
+  insert into public.pool_members (pool_id, trip_id)
+  values (v_pool, p_trip_id), (v_pool, p_matched_trip_id);
+
+  perform public.match_request_set(p_trip_id, p_matched_trip_id, 'matched');
+  perform public.match_request_set(p_matched_trip_id, p_trip_id, 'matched');
+  perform public.pool_refresh_status(v_pool);
+  return v_pool;
+end;
+$$;
+
+create or replace function public.pool_clear_pending_approvals(p_pool_id uuid, p_newcomer_trip_id uuid)
+returns void
+language sql
+as $$
+  delete from public.match_requests
+  where matched_trip_id = p_newcomer_trip_id
+    and status = 'partner_approval_needed'
+    and trip_id in (select trip_id from public.pool_members where pool_id = p_pool_id);
+$$;
+
+create or replace function public.pool_leave(p_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_pool uuid := public.pool_for_trip(p_trip_id);
+  v_remaining integer;
+begin
+  if v_pool is null then
+    raise exception 'Pool not found' using errcode = 'P0002';
+  end if;
+
+  perform 1 from public.pools where id = v_pool for update;
+
+  delete from public.match_requests
+  where (trip_id = p_trip_id
+      and matched_trip_id in (select trip_id from public.pool_members where pool_id = v_pool))
+    or (matched_trip_id = p_trip_id
+      and trip_id in (select trip_id from public.pool_members where pool_id = v_pool));
+
+  delete from public.pool_members where pool_id = v_pool and trip_id = p_trip_id;
+
+  select count(*) into v_remaining from public.pool_members where pool_id = v_pool;
+
+  if v_remaining < 2 then
+    delete from public.match_requests
+    where status = 'partner_approval_needed'
+      and trip_id in (select trip_id from public.pool_members where pool_id = v_pool);
+    delete from public.pools where id = v_pool;
+    return;
+  end if;
+
+  update public.pools
+  set organizer_trip_id = (
+    select trip_id
+    from public.pool_members
+    where pool_id = v_pool
+    order by joined_at, trip_id
+    limit 1
+  )
+  where id = v_pool
+    and (organizer_trip_id is null or organizer_trip_id = p_trip_id);
+
+  perform public.pool_refresh_status(v_pool);
+end;
+$$;
+
+-- Accepting now asks every other member of an existing pool to approve the
+-- newcomer, and confirmed pairs are recorded as pool membership.
+create or replace function public.match_request_accept(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_trip_status text;
+  v_match_status text;
+  v_pool uuid;
+  v_trip_pool uuid;
+  v_match_pool uuid;
+  v_newcomer uuid;
+  v_requester uuid;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  v_trip_status := public.match_request_status(p_trip_id, p_matched_trip_id);
+  v_match_status := public.match_request_status(p_matched_trip_id, p_trip_id);
+
+  if v_trip_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  -- An existing pool member approving a newcomer.
+  if v_trip_status = 'partner_approval_needed'
+    and v_match_status is distinct from 'partner_approval_needed' then
+    perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+
+    v_pool := public.pool_for_trip(p_trip_id);
+    if v_pool is null then
+      return;
+    end if;
+
+    select member.trip_id into v_requester
+    from public.pool_members as member
+    where member.pool_id = v_pool
+      and public.match_request_status(member.trip_id, p_matched_trip_id) = 'partner_approval_needed'
+      and public.match_request_status(p_matched_trip_id, member.trip_id) = 'partner_approval_needed'
+    limit 1;
+
+    if v_requester is null then
+      return;
+    end if;
+
+    if not exists (
+      select 1
+      from public.match_requests as pending
+      join public.pool_members as member on member.trip_id = pending.trip_id
+      where member.pool_id = v_pool
+        and pending.matched_trip_id = p_matched_trip_id
+        and pending.status = 'partner_approval_needed'
+        and pending.trip_id <> v_requester
+    ) then
+      perform public.match_request_clear(v_requester, p_matched_trip_id);
+      perform public.match_request_clear(p_matched_trip_id, v_requester);
+      perform public.pool_add_member(v_pool, p_matched_trip_id);
+    end if;
+
+    return;
+  end if;
+
+  if v_match_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  v_trip_pool := public.pool_for_trip(p_trip_id);
+  v_match_pool := public.pool_for_trip(p_matched_trip_id);
+
+  if v_trip_pool is not null and v_match_pool is not null and v_trip_pool <> v_match_pool then
+    raise exception 'Both trips are already in different pools' using errcode = 'P0003';
+  end if;
+
+  v_pool := coalesce(v_trip_pool, v_match_pool);
+  v_newcomer := case when v_trip_pool is null then p_trip_id else p_matched_trip_id end;
+
+  if v_pool is not null and exists (
+    select 1
+    from public.pool_members
+    where pool_id = v_pool
+      and trip_id not in (p_trip_id, p_matched_trip_id)
+  ) then
+    if (select status from public.pools where id = v_pool) = 'full' then
+      raise exception 'Pool is full' using errcode = 'P0004';
+    end if;
+
+    perform public.match_request_set(p_trip_id, p_matched_trip_id, 'partner_approval_needed');
+    perform public.match_request_set(p_matched_trip_id, p_trip_id, 'partner_approval_needed');
+
+    insert into public.match_requests (trip_id, matched_trip_id, status)
+    select trip_id, v_newcomer, 'partner_approval_needed'
+    from public.pool_members
+    where pool_id = v_pool
+      and trip_id not in (p_trip_id, p_matched_trip_id)
+    on conflict (trip_id, matched_trip_id)
+    do update set status = excluded.status, updated_at = now();
+
+    return;
+  end if;
+
+  perform public.pool_link(p_matched_trip_id, p_trip_id);
+end;
+$$;
+
+create or replace function public.match_request_deny(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_trip_status text;
+  v_match_status text;
+  v_pool uuid;
+  v_requester uuid;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  v_trip_status := public.match_request_status(p_trip_id, p_matched_trip_id);
+  v_match_status := public.match_request_status(p_matched_trip_id, p_trip_id);
+
+  if v_trip_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  -- An existing pool member turning down a newcomer, who has no row back.
+  if v_trip_status = 'partner_approval_needed' and v_match_status is null then
+    v_pool := public.pool_for_trip(p_trip_id);
+    perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+
+    if v_pool is not null then
+      for v_requester in
+        select trip_id
+        from public.pool_members
+        where pool_id = v_pool
+          and public.match_request_status(trip_id, p_matched_trip_id) = 'partner_approval_needed'
+          and public.match_request_status(p_matched_trip_id, trip_id) = 'partner_approval_needed'
+      loop
+        perform public.match_request_clear(v_requester, p_matched_trip_id);
+        perform public.match_request_clear(p_matched_trip_id, v_requester);
+      end loop;
+
+      perform public.pool_clear_pending_approvals(v_pool, p_matched_trip_id);
+    end if;
+
+    return;
+  end if;
+
+  if v_match_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  perform public.match_request_expect(p_trip_id, p_matched_trip_id, 'request_received', 'request_sent');
+
+  perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+  perform public.match_request_clear(p_matched_trip_id, p_trip_id);
+end;
+$$;
+
+create or replace function public.match_request_withdraw(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_trip_pool uuid;
+  v_match_pool uuid;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  if public.match_request_status(p_trip_id, p_matched_trip_id) is null
+    or public.match_request_status(p_matched_trip_id, p_trip_id) is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+  perform public.match_request_clear(p_matched_trip_id, p_trip_id);
+
+  v_trip_pool := public.pool_for_trip(p_trip_id);
+  v_match_pool := public.pool_for_trip(p_matched_trip_id);
+
+  if v_trip_pool is not null and v_match_pool is null then
+    perform public.pool_clear_pending_approvals(v_trip_pool, p_matched_trip_id);
+  elsif v_match_pool is not null and v_trip_pool is null then
+    perform public.pool_clear_pending_approvals(v_match_pool, p_trip_id);
+  end if;
+end;
+$$;
+
+-- Removing a confirmed match means the caller's trip leaves the shared pool.
+create or replace function public.match_request_remove(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_pool uuid;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  if public.match_request_status(p_trip_id, p_matched_trip_id) is null
+    or public.match_request_status(p_matched_trip_id, p_trip_id) is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  v_pool := public.pool_for_trip(p_trip_id);
+  if v_pool is not null and v_pool = public.pool_for_trip(p_matched_trip_id) then
+    perform public.pool_leave(p_trip_id);
+    return;
+  end if;
+
+  perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+  perform public.match_request_clear(p_matched_trip_id, p_trip_id);
+end;
+$$;
+
+-- Backfill pools from confirmed pairs. Pairs that would join two different
+-- pools were already inconsistent and are left for the match-repair report.
+do $$
+declare
+  v_pair record;
+begin
+  for v_pair in
+    select trip_id, matched_trip_id
+    from public.match_requests
+    where status = 'matched'
+      and trip_id < matched_trip_id
+    order by created_at
+  loop
+    begin
+      perform public.pool_link(v_pair.trip_id, v_pair.matched_trip_id);
+    exception
+      when sqlstate 'P0003' or sqlstate 'P0004' then
+        null;
+    end;
+  end loop;
+end;
+$$;
+
+revoke execute on function
+  public.pool_for_trip(uuid),
+  public.pool_refresh_status(uuid),
+  public.pool_add_member(uuid, uuid),
+  public.pool_link(uuid, uuid),
+  public.pool_clear_pending_approvals(uuid, uuid),
+  public.pool_leave(uuid)
+from public, anon, authenticated;
+
+revoke execute on function public.pool_is_member(uuid) from public, anon;
@@ -0,0 +1,415 @@
+-- Trips record how many people and bags they bring, and each pool rides in a
+-- vehicle class whose seats and luggage space cap who can join. Requests that
+-- would not fit raise P0004 (POOL_FULL) with the reason as the message.
+alter table public.trips
+  add column if not exists party_size integer not null default 1 check (party_size between 1 and 5),
+  add column if not exists checked_bags integer not null default 0 check (checked_bags between 0 and 8),
+  add column if not exists carry_on_bags integer not null default 0 check (carry_on_bags between 0 and 8);
+
+alter table public.pools
+  add column if not exists vehicle_class text not null default 'xl'
+    check (vehicle_class in ('standard', 'xl', 'van'));
+
+-- Mirrors VEHICLE_LIMITS in lib/pools.ts.
+create or replace function public.vehicle_class_limits(p_vehicle_class text)
+returns table (label text, seats integer, checked_bags integer, carry_on_bags integer)
+language sql
+immutable
+as $$
+  select limits.label, limits.seats, limits.checked_bags, limits.carry_on_bags
+  from (
+    values
+      ('standard', 'Standard', 4, 2, 4),
+      ('xl', 'XL', 6, 4, 6),
+      ('van', 'Van', 6, 8, 8)
+  ) as limits (vehicle_class, label, seats, checked_bags, carry_on_bags)
+  where limits.vehicle_class = p_vehicle_class;
+$$;
+
+create or replace function public.vehicle_fit_error(p_vehicle_class text, p_trip_ids uuid[])
+returns text
+language sql
+stable
+as $$
+  select case
+    when load.party_size > limits.seats then
+      format('%s vehicles only seat %s riders.', limits.label, limits.seats)
+    when load.checked_bags > limits.checked_bags then
+      format('%s vehicles only fit %s checked bags.', limits.label, limits.checked_bags)
+    when load.carry_on_bags > limits.carry_on_bags then
+      format('%s vehicles only fit %s carry-on bags.', limits.label, limits.carry_on_bags)
+  end
+  from public.vehicle_class_limits(p_vehicle_class) as limits
+  cross join (
+    select
+      coalesce(sum(party_size), 0) as party_size,
+      coalesce(sum(checked_bags), 0) as checked_bags,
+      coalesce(sum(carry_on_bags), 0) as carry_on_bags
+    from public.trips
+    where id = any(p_trip_ids)
+  ) as load;
+$$;
+
+create or replace function public.vehicle_smallest_class(p_trip_ids uuid[])
+returns text
+language sql
+stable
+as $$
+  select vehicle_class
+  from unnest(array['standard', 'xl', 'van']) with ordinality as classes (vehicle_class, position)
+  where public.vehicle_fit_error(vehicle_class, p_trip_ids) is null
+  order by position
+  limit 1;
+$$;
+
+create or replace function public.pool_member_ids(p_pool_id uuid)
+returns uuid[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(trip_id), '{}') from public.pool_members where pool_id = p_pool_id;
+$$;
+
+-- Why p_trip_id cannot join the pool, or null when it fits.
+create or replace function public.pool_fit_error(p_pool_id uuid, p_trip_id uuid)
+returns text
+language sql
+stable
+as $$
+  select public.vehicle_fit_error(
+    vehicle_class,
+    array_remove(public.pool_member_ids(p_pool_id) || p_trip_id, null)
+  )
+  from public.pools
+  where id = p_pool_id;
+$$;
+
+update public.pools
+set vehicle_class = coalesce(public.vehicle_smallest_class(public.pool_member_ids(id)), 'van');
+
+alter table public.pools drop column if exists capacity;
+
+create or replace function public.pool_refresh_status(p_pool_id uuid)
+returns void
+language sql
+as $$
+  update public.pools
+  set
+    status = case
+      when (
+        select coalesce(sum(trips.party_size), 0)
+        from public.pool_members
+        join public.trips on trips.id = pool_members.trip_id
+        where pool_members.pool_id = p_pool_id
+      ) >= (select seats from public.vehicle_class_limits(vehicle_class)) then 'full'
+      else 'open'
+    end,
+    updated_at = now()
+  where id = p_pool_id;
+$$;
+
+create or replace function public.pool_add_member(p_pool_id uuid, p_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_error text;
+  v_member uuid;
+begin
+  perform 1 from public.pools where id = p_pool_id for update;
+
+  v_error := public.pool_fit_error(p_pool_id, p_trip_id);
+  if v_error is not null then
+    raise exception '%', v_error using errcode = 'P0004';
+  end if;
+
+  for v_member in
+    select trip_id from public.pool_members where pool_id = p_pool_id
+  loop
+    perform public.match_request_set(v_member, p_trip_id, 'matched');
+    perform public.match_request_set(p_trip_id, v_member, 'matched');
+  end loop;
+
+  insert into public.pool_members (pool_id, trip_id) values (p_pool_id, p_trip_id);
+  perform public.pool_refresh_status(p_pool_id);
+end;
+$$;
+
+-- New pools start in the smallest vehicle class that fits both riders.
+create or replace function public.pool_link(p_trip_id uuid, p_matched_trip_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_trip_pool uuid := public.pool_for_trip(p_trip_id);
+  v_match_pool uuid := public.pool_for_trip(p_matched_trip_id);
+  v_vehicle_class text;
+  v_pool uuid;
+begin
+  if v_trip_pool is not null and v_match_pool is not null then
+    if v_trip_pool <> v_match_pool then
+      raise exception 'Both trips are already in different pools' using errcode = 'P0003';
+    end if;
+    return v_trip_pool;
+  end if;
+
+  if v_trip_pool is not null then
+    perform public.pool_add_member(v_trip_pool, p_matched_trip_id);
+    return v_trip_pool;
+  end if;
+
+  if v_match_pool is not null then
+    perform public.pool_add_member(v_match_pool, p_trip_id);
+    return v_match_pool;
+  end if;
+
+  v_vehicle_class := public.vehicle_smallest_class(array[p_trip_id, p_matched_trip_id]);
+  if v_vehicle_class is null then
+    raise exception 'These riders and their bags do not fit in any vehicle'
+      using errcode = 'P0004';
+  end if;
+
+  insert into public.pools (direction, flight_date, organizer_trip_id, vehicle_class)
+  select direction, flight_date, p_trip_id, v_vehicle_class
+  from public.trips
+  where id = p_trip_id
+  returning id into v_pool;
+
+  insert into public.pool_members (pool_id, trip_id)
+  values (v_pool, p_trip_id), (v_pool, p_matched_trip_id);
+
+  perform public.match_request_set(p_trip_id, p_matched_trip_id, 'matched');
+  perform public.match_request_set(p_matched_trip_id, p_trip_id, 'matched');
+  perform public.pool_refresh_status(v_pool);
+  return v_pool;
+end;
+$$;
+
+-- Why two trips in at most one pool could not ride together, or null when they fit.
+create or replace function public.pool_link_error(p_trip_id uuid, p_matched_trip_id uuid)
+returns text
+language sql
+stable
+as $$
+  select case
+    when trip_pool is not null then public.pool_fit_error(trip_pool, p_matched_trip_id)
+    when match_pool is not null then public.pool_fit_error(match_pool, p_trip_id)
+    when public.vehicle_smallest_class(array[p_trip_id, p_matched_trip_id]) is null then
+      'These riders and their bags do not fit in any vehicle'
+  end
+  from (
+    select
+      public.pool_for_trip(p_trip_id) as trip_pool,
+      public.pool_for_trip(p_matched_trip_id) as match_pool
+  ) as pools;
+$$;
+
+create or replace function public.pool_set_vehicle_class(p_pool_id uuid, p_vehicle_class text)
+returns void
+language plpgsql
+as $$
+declare
+  v_error text;
+begin
+  perform 1 from public.pools where id = p_pool_id for update;
+  if not found then
+    raise exception 'Pool not found' using errcode = 'P0002';
+  end if;
+
+  v_error := public.vehicle_fit_error(p_vehicle_class, public.pool_member_ids(p_pool_id));
+  if v_error is not null then
+    raise exception '%', v_error using errcode = 'P0004';
+  end if;
+
+  update public.pools
+  set vehicle_class = p_vehicle_class, updated_at = now()
+  where id = p_pool_id;
+
+  perform public.pool_refresh_status(p_pool_id);
+end;
+$$;
+
+create or replace function public.trips_check_pool_load()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_pool uuid := public.pool_for_trip(new.id);
+  v_error text;
+begin
+  if v_pool is null then
+    return null;
+  end if;
+
+  v_error := public.pool_fit_error(v_pool, null);
+  if v_error is not null then
+    raise exception 'Your pool no longer fits: %', v_error using errcode = 'P0004';
+  end if;
+
+  perform public.pool_refresh_status(v_pool);
+  return null;
+end;
+$$;
+
+drop trigger if exists trips_check_pool_load on public.trips;
+create trigger trips_check_pool_load
+  after update of party_size, checked_bags, carry_on_bags on public.trips
+  for each row
+  execute function public.trips_check_pool_load();
+
+create or replace function public.match_request_send(p_trip_id uuid, p_matched_trip_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_trip_pool uuid;
+  v_match_pool uuid;
+  v_error text;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+  perform public.match_request_expect(p_trip_id, p_matched_trip_id, null, null);
+
+  v_trip_pool := public.pool_for_trip(p_trip_id);
+  v_match_pool := public.pool_for_trip(p_matched_trip_id);
+
+  if v_trip_pool is not null and v_match_pool is not null and v_trip_pool <> v_match_pool then
+    raise exception 'Both trips are already in different pools' using errcode = 'P0003';
+  end if;
+
+  v_error := public.pool_link_error(p_trip_id, p_matched_trip_id);
+  if v_error is not null then
+    raise exception '%', v_error using errcode = 'P0004';
+  end if;
+
+  perform public.match_request_set(p_trip_id, p_matched_trip_id, 'request_sent');
+  perform public.match_request_set(p_matched_trip_id, p_trip_id, 'request_received');
+end;
+$$;
+
+-- Returns why a final approval was turned down, or null. Raising instead
+-- would roll back the approver's cleared row and leave the request stuck.
+drop function if exists public.match_request_accept(uuid, uuid);
+
+create function public.match_request_accept(p_trip_id uuid, p_matched_trip_id uuid)
+returns text
+language plpgsql
+as $$
+declare
+  v_trip_status text;
+  v_match_status text;
+  v_pool uuid;
+  v_trip_pool uuid;
+  v_match_pool uuid;
+  v_newcomer uuid;
+  v_requester uuid;
+  v_error text;
+begin
+  perform public.match_request_lock(p_trip_id, p_matched_trip_id);
+
+  v_trip_status := public.match_request_status(p_trip_id, p_matched_trip_id);
+  v_match_status := public.match_request_status(p_matched_trip_id, p_trip_id);
+
+  if v_trip_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  -- An existing pool member approving a newcomer, who has no row back.
+  if v_trip_status = 'partner_approval_needed' and v_match_status is null then
+    perform public.match_request_clear(p_trip_id, p_matched_trip_id);
+
+    -- Every action on the newcomer locks their trip, so the pending request
+    -- read here can't change before this approval commits.
+    v_pool := public.pool_for_trip(p_trip_id);
+    select member.trip_id into v_requester
+    from public.pool_members as member
+    where member.pool_id = v_pool
+      and public.match_request_status(member.trip_id, p_matched_trip_id) = 'partner_approval_needed'
+      and public.match_request_status(p_matched_trip_id, member.trip_id) = 'partner_approval_needed'
+    limit 1;
+
+    if v_requester is null then
+      raise exception 'This match changed. Please refresh and try again.' using errcode = 'P0006';
+    end if;
+
+    if not exists (
+      select 1
+      from public.match_requests as pending
+      join public.pool_members as member on member.trip_id = pending.trip_id
+      where member.pool_id = v_pool
+        and pending.matched_trip_id = p_matched_trip_id
+        and pending.status = 'partner_approval_needed'
+        and pending.trip_id <> v_requester
+    ) then
+      perform public.match_request_clear(v_requester, p_matched_trip_id);
+      perform public.match_request_clear(p_matched_trip_id, v_requester);
+
+      -- The pool can fill up while approvals are pending. The newcomer's
+      -- request is closed so nobody is left waiting on it.
+      begin
+        perform public.pool_add_member(v_pool, p_matched_trip_id);
+      exception when sqlstate 'P0004' then
+        perform public.pool_clear_pending_approvals(v_pool, p_matched_trip_id);
+        return format('%s The request to join was closed.', sqlerrm);
+      end;
+    end if;
+
+    return null;
+  end if;
+
+  if v_match_status is null then
+    raise exception 'Match not found' using errcode = 'P0002';
+  end if;
+
+  perform public.match_request_expect(p_trip_id, p_matched_trip_id, 'request_received', 'request_sent');
+
+  v_trip_pool := public.pool_for_trip(p_trip_id);
+  v_match_pool := public.pool_for_trip(p_matched_trip_id);
+
+  if v_trip_pool is not null and v_match_pool is not null and v_trip_pool <> v_match_pool then
+    raise exception 'Both trips are already in different pools' using errcode = 'P0003';
+  end if;
+
+  v_pool := coalesce(v_trip_pool, v_match_pool);
+  v_newcomer := case when v_trip_pool is null then p_trip_id else p_matched_trip_id end;
+
+  if v_pool is not null and exists (
+    select 1
+    from public.pool_members
+    where pool_id = v_pool
+      and trip_id not in (p_trip_id, p_matched_trip_id)
+  ) then
+    v_error := public.pool_fit_error(v_pool, v_newcomer);
+    if v_error is not null then
+      raise exception '%', v_error using errcode = 'P0004';
+    end if;
+
+    perform public.match_request_set(p_trip_id, p_matched_trip_id, 'partner_approval_needed');
+    perform public.match_request_set(p_matched_trip_id, p_trip_id, 'partner_approval_needed');
+
+    insert into public.match_requests (trip_id, matched_trip_id, status)
+    select trip_id, v_newcomer, 'partner_approval_needed'
+    from public.pool_members
+    where pool_id = v_pool
+      and trip_id not in (p_trip_id, p_matched_trip_id)
+    on conflict (trip_id, matched_trip_id)
+    do update set status = excluded.status, updated_at = now();
+
+    return null;
+  end if;
+
+  perform public.pool_link(p_matched_trip_id, p_trip_id);
+  return null;
+end;
+$$;
+
+revoke execute on function
+  public.vehicle_class_limits(text),
+  public.vehicle_fit_error(text, uuid[]),
+  public.vehicle_smallest_class(uuid[]),
+  public.pool_member_ids(uuid),
+  public.pool_fit_error(uuid, uuid),
+  public.pool_link_error(uuid, uuid),
+  public.pool_set_vehicle_class(uuid, text),
+  public.trips_check_pool_load(),
+  public.match_request_accept(uuid, uuid)
+from public, anon, authenticated;
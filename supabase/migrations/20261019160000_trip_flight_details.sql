@@ -0,0 +1,10 @@
+-- Optional flight details. Codes are validated against the bundled reference
+-- lists in lib/data by the plan form; the database only checks their shape.
+alter table public.trips
+  add column if not exists airline_code text check (airline_code ~ '^[A-Z0-9]{2}$'),
+  add column if not exists flight_number text check (flight_number ~ '^[0-9]{1,4}$'),
+  add column if not exists other_airport_code text check (other_airport_code ~ '^[A-Z]{3}$');
+
+alter table public.trips
+  add constraint trips_flight_number_needs_airline
+  check (flight_number is null or airline_code is not null);
@@ -0,0 +1,10 @@
+-- Latest flight status recorded by app/api/flight-status-poll for trips with
+-- a flight number. Times and gate are for the PIT side of the flight.
+alter table public.trips
+  add column if not exists flight_status text
+    check (flight_status in ('scheduled', 'delayed', 'departed', 'landed', 'cancelled')),
+  add column if not exists flight_delay_minutes integer not null default 0
+    check (flight_delay_minutes >= 0),
+  add column if not exists flight_expected_at timestamptz,
+  add column if not exists flight_gate text,
+  add column if not exists flight_status_checked_at timestamptz;
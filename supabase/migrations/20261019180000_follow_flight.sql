@@ -0,0 +1,6 @@
+-- "Follow my flight": reported delays shift the trip's window. The stored
+-- window already includes window_shift_minutes, so later reports only move
+-- it by the difference.
+alter table public.trips
+  add column if not exists follow_flight boolean not null default false,
+  add column if not exists window_shift_minutes integer not null default 0;
@@ -0,0 +1,4 @@
+-- Candidate trips are now found by window instants instead of flight_date,
+-- so windows that cross midnight still meet.
+create index if not exists trips_direction_window_idx
+  on public.trips (direction, window_start, window_end);
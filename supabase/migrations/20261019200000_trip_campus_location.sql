@@ -0,0 +1,4 @@
+-- Where on or near campus the ride starts or ends. Codes come from the
+-- bundled list in lib/data/campusLocations.json; null means campus itself.
+alter table public.trips
+  add column if not exists campus_location text check (campus_location ~ '^[a-z0-9-]+$');
@@ -0,0 +1,141 @@
+-- Post-ride expense ledger: one rider records what the pool's fare actually
+-- cost, and every member gets a share to pay back. Shares are computed by
+-- app/api/pools/[id]/expense with lib/fares.ts and stored so they don't
+-- change when someone later edits their trip.
+alter table public.profiles
+  add column if not exists venmo_username text check (venmo_username ~ '^[A-Za-z0-9_-]{5,30}$'),
+  add column if not exists cashapp_cashtag text check (cashapp_cashtag ~ '^[A-Za-z][A-Za-z0-9]{0,19}$'),
+  add column if not exists paypal_username text check (paypal_username ~ '^[A-Za-z0-9]{1,20}$');
+
+create table if not exists public.pool_expenses (
+  id uuid primary key default gen_random_uuid(),
+  pool_id uuid not null unique references public.pools (id) on delete cascade,
+  payer_trip_id uuid not null references public.trips (id) on delete cascade,
+  amount numeric(8, 2) not null check (amount > 0),
+  split_mode text not null check (split_mode in ('equal', 'distance')),
+  receipt_path text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.pool_expense_shares (
+  expense_id uuid not null references public.pool_expenses (id) on delete cascade,
+  trip_id uuid not null references public.trips (id) on delete cascade,
+  amount numeric(8, 2) not null check (amount >= 0),
+  paid_at timestamptz,
+  primary key (expense_id, trip_id)
+);
+
+alter table public.pool_expenses enable row level security;
+alter table public.pool_expense_shares enable row level security;
+
+create policy "Riders can read their pools' expenses"
+  on public.pool_expenses
+  for select
+  to authenticated
+  using (public.pool_is_member(pool_id));
+
+create policy "Riders can read their pools' expense shares"
+  on public.pool_expense_shares
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.pool_expenses
+      where pool_expenses.id = pool_expense_shares.expense_id
+        and public.pool_is_member(pool_expenses.pool_id)
+    )
+  );
+
+-- Records (or re-records) the pool's fare and replaces its shares in one
+-- step. p_shares is a JSON array of {trip_id, amount}; the payer's own share
+-- is marked paid. Only the rider who first recorded the fare may change it,
+-- and only until another rider has paid their share.
+create or replace function public.pool_expense_record(
+  p_pool_id uuid,
+  p_payer_trip_id uuid,
+  p_amount numeric,
+  p_split_mode text,
+  p_receipt_path text,
+  p_shares jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_expense_id uuid;
+  v_payer_trip_id uuid;
+begin
+  perform 1 from public.pools where id = p_pool_id for update;
+  if not found then
+    raise exception 'Pool not found' using errcode = 'P0002';
+  end if;
+
+  select id, payer_trip_id into v_expense_id, v_payer_trip_id
+  from public.pool_expenses
+  where pool_id = p_pool_id;
+
+  if v_payer_trip_id is not null and v_payer_trip_id <> p_payer_trip_id then
+    raise exception 'Another rider already recorded the fare for this pool' using errcode = 'P0005';
+  end if;
+
+  perform 1
+  from public.pool_expense_shares
+  where expense_id = v_expense_id
+    and trip_id <> v_payer_trip_id
+    and paid_at is not null;
+  if found then
+    raise exception 'Riders have already paid their shares of this fare' using errcode = 'P0005';
+  end if;
+
+  if v_expense_id is null then
+    insert into public.pool_expenses (pool_id, payer_trip_id, amount, split_mode, receipt_path)
+    values (p_pool_id, p_payer_trip_id, p_amount, p_split_mode, p_receipt_path)
+    returning id into v_expense_id;
+  else
+    update public.pool_expenses
+    set
+      amount = p_amount,
+      split_mode = p_split_mode,
+      receipt_path = coalesce(p_receipt_path, receipt_path),
+      updated_at = now()
+    where id = v_expense_id;
+
+    delete from public.pool_expense_shares where expense_id = v_expense_id;
+  end if;
+
+  insert into public.pool_expense_shares (expense_id, trip_id, amount, paid_at)
+  select
+    v_expense_id,
+    (share ->> 'trip_id')::uuid,
+    (share ->> 'amount')::numeric,
+    case when (share ->> 'trip_id')::uuid = p_payer_trip_id then now() end
+  from jsonb_array_elements(p_shares) as share;
+
+  return v_expense_id;
+end;
+$$;
+
+revoke execute on function
+  public.pool_expense_record(uuid, uuid, numeric, text, text, jsonb)
+from public, anon, authenticated;
+
+-- Receipt photos, stored like avatars under the uploader's user id. The
+-- bucket is private; pool members view receipts through signed URLs from
+-- app/api/trips/[id]/matches.
+insert into storage.buckets (id, name, public)
+values ('receipts', 'receipts', false)
+on conflict (id) do update set public = false;
+
+create policy "Riders can upload their own receipts"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (bucket_id = 'receipts' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Riders can read their own receipts"
+  on storage.objects
+  for select
+  to authenticated
+  using (bucket_id = 'receipts' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,21 @@
+-- The pool member who calls the Uber or Lyft for the group.
+alter table public.pools
+  add column if not exists booker_trip_id uuid references public.trips (id) on delete set null;
+
+create or replace function public.pool_members_clear_booker()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.pools
+  set booker_trip_id = null, updated_at = now()
+  where id = old.pool_id and booker_trip_id = old.trip_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists pool_members_clear_booker on public.pool_members;
+create trigger pool_members_clear_booker
+  after delete on public.pool_members
+  for each row
+  execute function public.pool_members_clear_booker();
@@ -0,0 +1,219 @@
+-- In-app chat. A thread belongs either to a pool or to a pair of trips that
+-- have a match relationship. Members are whoever owns one of those trips, so
+-- riders never need each other's email to coordinate. Writes go through the
+-- service role in app/api/threads; riders read directly so Realtime can
+-- deliver new messages.
+create table if not exists public.message_threads (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('match', 'pool')),
+  pool_id uuid unique references public.pools (id) on delete cascade,
+  trip_a_id uuid references public.trips (id) on delete cascade,
+  trip_b_id uuid references public.trips (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (trip_a_id, trip_b_id),
+  check (
+    (kind = 'pool' and pool_id is not null and trip_a_id is null and trip_b_id is null)
+    or (kind = 'match' and pool_id is null and trip_a_id < trip_b_id)
+  )
+);
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.message_threads (id) on delete cascade,
+  sender_trip_id uuid references public.trips (id) on delete set null,
+  body text not null check (char_length(body) between 1 and 2000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_threads_trip_b_id_idx
+  on public.message_threads (trip_b_id);
+
+create index if not exists messages_thread_id_created_at_idx
+  on public.messages (thread_id, created_at);
+
+create table if not exists public.message_reads (
+  thread_id uuid not null references public.message_threads (id) on delete cascade,
+  user_email text not null,
+  last_read_at timestamptz not null default now(),
+  primary key (thread_id, user_email)
+);
+
+-- Emails of everyone allowed into a thread. Match threads close as soon as
+-- the two trips no longer have a match relationship. Runs as the owner so the
+-- RLS policies below can see trips and match requests.
+create or replace function public.message_thread_member_emails(p_thread_id uuid)
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select trips.user_email
+  from public.message_threads
+  join public.pool_members on pool_members.pool_id = message_threads.pool_id
+  join public.trips on trips.id = pool_members.trip_id
+  where message_threads.id = p_thread_id
+    and message_threads.kind = 'pool'
+  union
+  select trips.user_email
+  from public.message_threads
+  join public.trips on trips.id in (message_threads.trip_a_id, message_threads.trip_b_id)
+  where message_threads.id = p_thread_id
+    and message_threads.kind = 'match'
+    and (
+      public.match_request_status(message_threads.trip_a_id, message_threads.trip_b_id) is not null
+      or public.match_request_status(message_threads.trip_b_id, message_threads.trip_a_id) is not null
+    );
+$$;
+
+-- Whether the signed-in rider belongs to a thread, for the read policies.
+-- Unlike the email list it reveals nothing about other riders.
+create or replace function public.message_thread_is_member(p_thread_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (auth.jwt() ->> 'email') in (select public.message_thread_member_emails(p_thread_id));
+$$;
+
+alter table public.message_threads enable row level security;
+alter table public.messages enable row level security;
+alter table public.message_reads enable row level security;
+
+create policy "Riders can read their threads"
+  on public.message_threads
+  for select
+  to authenticated
+  using (public.message_thread_is_member(id));
+
+create policy "Riders can read messages in their threads"
+  on public.messages
+  for select
+  to authenticated
+  using (public.message_thread_is_member(thread_id));
+
+create policy "Riders can read their own read markers"
+  on public.message_reads
+  for select
+  to authenticated
+  using (user_email = auth.jwt() ->> 'email');
+
+-- Returns the thread for a pool, or for a pair of trips in either order,
+-- creating it on first use.
+create or replace function public.message_thread_open(
+  p_pool_id uuid,
+  p_trip_id uuid,
+  p_matched_trip_id uuid
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_thread uuid;
+begin
+  if p_pool_id is not null then
+    insert into public.message_threads (kind, pool_id)
+    values ('pool', p_pool_id)
+    on conflict (pool_id) do nothing;
+
+    select id into v_thread from public.message_threads where pool_id = p_pool_id;
+  else
+    insert into public.message_threads (kind, trip_a_id, trip_b_id)
+    values (
+      'match',
+      least(p_trip_id, p_matched_trip_id),
+      greatest(p_trip_id, p_matched_trip_id)
+    )
+    on conflict (trip_a_id, trip_b_id) do nothing;
+
+    select id into v_thread
+    from public.message_threads
+    where trip_a_id = least(p_trip_id, p_matched_trip_id)
+      and trip_b_id = greatest(p_trip_id, p_matched_trip_id);
+  end if;
+
+  return v_thread;
+end;
+$$;
+
+-- Every thread the rider belongs to, with how many messages from others
+-- arrived since they last opened it. Threads are found from the rider's own
+-- trips first, so the cost follows their chats rather than everyone's.
+create or replace function public.message_thread_summaries(p_email text)
+returns table (
+  thread_id uuid,
+  kind text,
+  pool_id uuid,
+  trip_a_id uuid,
+  trip_b_id uuid,
+  last_message_at timestamptz,
+  unread bigint
+)
+language sql
+stable
+as $$
+  with own_trips as (
+    select id from public.trips where user_email = p_email
+  ),
+  own_threads as (
+    select message_threads.*
+    from public.message_threads
+    join public.pool_members on pool_members.pool_id = message_threads.pool_id
+    join own_trips on own_trips.id = pool_members.trip_id
+    where message_threads.kind = 'pool'
+    union
+    select message_threads.*
+    from public.message_threads
+    join own_trips on own_trips.id = message_threads.trip_a_id
+    where message_threads.kind = 'match'
+    union
+    select message_threads.*
+    from public.message_threads
+    join own_trips on own_trips.id = message_threads.trip_b_id
+    where message_threads.kind = 'match'
+  )
+  select
+    own_threads.id,
+    own_threads.kind,
+    own_threads.pool_id,
+    own_threads.trip_a_id,
+    own_threads.trip_b_id,
+    (
+      select max(messages.created_at)
+      from public.messages
+      where messages.thread_id = own_threads.id
+    ),
+    (
+      select count(*)
+      from public.messages
+      left join public.trips as senders on senders.id = messages.sender_trip_id
+      where messages.thread_id = own_threads.id
+        and messages.created_at > coalesce(
+          (
+            select message_reads.last_read_at
+            from public.message_reads
+            where message_reads.thread_id = own_threads.id
+              and message_reads.user_email = p_email
+          ),
+          '-infinity'
+        )
+        and senders.user_email is distinct from p_email
+    )
+  from own_threads
+  -- Match threads close once the two trips no longer have a relationship.
+  where own_threads.kind = 'pool'
+    or public.match_request_status(own_threads.trip_a_id, own_threads.trip_b_id) is not null
+    or public.match_request_status(own_threads.trip_b_id, own_threads.trip_a_id) is not null;
+$$;
+
+revoke execute on function
+  public.message_thread_member_emails(uuid),
+  public.message_thread_open(uuid, uuid, uuid),
+  public.message_thread_summaries(text)
+from public, anon, authenticated;
+
+revoke execute on function public.message_thread_is_member(uuid) from public, anon;
+
+alter publication supabase_realtime add table public.messages;
@@ -0,0 +1,5 @@
+-- Lets My Trips patch itself live instead of refetching after every action.
+-- Delete events on these RLS tables only carry the primary key, so the page
+-- matches removed match_requests rows by id against the ones it loaded.
+alter publication supabase_realtime
+  add table public.trips, public.match_requests, public.pools, public.pool_members;
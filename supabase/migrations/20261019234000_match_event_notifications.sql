@@ -0,0 +1,22 @@
+-- Emails sent for match request actions (requested, accepted, denied,
+-- withdrawn, removed) and for pool partners asked to approve a newcomer. Like
+-- match_notifications, a rider hears about each kind of event from a given
+-- trip at most once.
+create table if not exists public.match_event_notifications (
+  trip_id uuid not null references public.trips (id) on delete cascade,
+  matched_trip_id uuid not null references public.trips (id) on delete cascade,
+  event_type text not null check (
+    event_type in (
+      'request_received',
+      'request_accepted',
+      'request_denied',
+      'request_withdrawn',
+      'match_removed',
+      'approval_needed'
+    )
+  ),
+  notified_at timestamptz not null default now(),
+  primary key (trip_id, matched_trip_id, event_type)
+);
+
+alter table public.match_event_notifications enable row level security;